@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { safeUrl, stringifyValue } from '@/lib/attributes';
+import { isNullValue } from '@/lib/fields';
+import { useI18n } from '@/hooks/use-i18n';
+
+// Values longer than this are cut with a "more" toggle
+const TRUNCATE_AT = 120;
+
+interface AttributeValueProps {
+  value: unknown;
+  // Formatted text (see lib/fields); the raw value when omitted
+  text?: string;
+}
+
+// Renders an attribute value as text through React (never as HTML), with
+// web links made clickable and long values collapsed. Missing values are
+// marked as such, so they can't be mistaken for 0 or false.
+const AttributeValue = ({ value, text: formatted }: AttributeValueProps) => {
+  const [expanded, setExpanded] = useState(false);
+  const { t } = useI18n();
+
+  if (isNullValue(value)) {
+    return <span className="italic text-gray-400">{t('value.null')}</span>;
+  }
+
+  const text = formatted ?? stringifyValue(value);
+  const href = safeUrl(value);
+  const truncated = !expanded && text.length > TRUNCATE_AT;
+  const shown = truncated ? `${text.slice(0, TRUNCATE_AT)}…` : text;
+
+  return (
+    <span className="break-all">
+      {href ? (
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="text-map-primary hover:underline"
+        >
+          {shown}
+        </a>
+      ) : (
+        shown
+      )}
+      {text.length > TRUNCATE_AT && (
+        <button
+          type="button"
+          className="ml-1 text-xs text-map-primary hover:underline"
+          onClick={() => setExpanded((prev) => !prev)}
+        >
+          {expanded ? t('value.less') : t('value.more')}
+        </button>
+      )}
+    </span>
+  );
+};
+
+export default AttributeValue;
@@ -0,0 +1,101 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import {
+  CoordinateParseError,
+  formatCoordinatePair,
+  parseCoordinates,
+  type ParsedCoordinates,
+} from '@/lib/coordinates';
+import type { MessageKey } from '@/lib/i18n';
+import { useI18n } from '@/hooks/use-i18n';
+
+// Reference points per degree for short Plus Codes
+const REFERENCE_STEPS = 10;
+
+interface CoordinateBoxProps {
+  // Current map center: what the box shows until edited, and the reference
+  // for short Plus Codes
+  center: { latitude: number; longitude: number };
+}
+
+// Single input (named "coordinates", read by the enclosing form) accepting
+// any of the forms parseCoordinates understands, with a live line telling
+// what the typed text was read as
+const CoordinateBox = ({ center }: CoordinateBoxProps) => {
+  const { locale, t, formatNumber } = useI18n();
+  const current = formatCoordinatePair(locale, center.latitude, center.longitude);
+  const [text, setText] = useState(current);
+
+  // Like the map, the box follows pans and zooms
+  useEffect(() => {
+    setText(current);
+  }, [current]);
+  const editing = text !== current;
+
+  // Short Plus Codes only need a rough reference: the center to a tenth of a
+  // degree, so the text is not parsed again on every pan
+  const referenceLatitude = Math.round(center.latitude * REFERENCE_STEPS) / REFERENCE_STEPS;
+  const referenceLongitude = Math.round(center.longitude * REFERENCE_STEPS) / REFERENCE_STEPS;
+  const result = useMemo(() => {
+    try {
+      return {
+        parsed: parseCoordinates(text, {
+          latitude: referenceLatitude,
+          longitude: referenceLongitude,
+        }),
+      };
+    } catch (error) {
+      if (!(error instanceof CoordinateParseError)) throw error;
+      return { error: t(`coordinates.error.${error.code}` as MessageKey) };
+    }
+  }, [text, t, referenceLatitude, referenceLongitude]);
+
+  const describe = ({ format, latitude, longitude, utm }: ParsedCoordinates) => {
+    const source = utm
+      ? t('coordinates.format.utm', {
+          zone: utm.zone,
+          hemisphere: utm.south ? 'S' : 'N',
+          easting: formatNumber(utm.easting, { maximumFractionDigits: 2 }),
+          northing: formatNumber(utm.northing, { maximumFractionDigits: 2 }),
+        })
+      : t(`coordinates.format.${format}` as MessageKey);
+    return t('coordinates.understood', {
+      source,
+      coordinates: formatCoordinatePair(locale, latitude, longitude),
+    });
+  };
+
+  return (
+    <div className="flex flex-1 flex-col gap-2 min-w-0">
+      <Label htmlFor="coordinates">{t('coordinates.label')}</Label>
+      <Input
+        id="coordinates"
+        name="coordinates"
+        value={text}
+        placeholder={t('coordinates.placeholder')}
+        autoComplete="off"
+        spellCheck={false}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setText(current);
+        }}
+        aria-describedby="coordinates-feedback"
+        aria-invalid={editing && result.error !== undefined}
+      />
+      <p
+        id="coordinates-feedback"
+        aria-live="polite"
+        className={cn(
+          'min-h-4 truncate text-xs',
+          editing && result.error ? 'text-red-600' : 'text-gray-500'
+        )}
+      >
+        {editing && (result.parsed ? describe(result.parsed) : result.error)}
+      </p>
+    </div>
+  );
+};
+
+export default CoordinateBox;
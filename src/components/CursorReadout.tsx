@@ -0,0 +1,71 @@
+import { Copy } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  DISPLAY_FORMATS,
+  formatCoordinates,
+  type CoordinateDisplayFormat,
+} from '@/lib/coordinates';
+import { useCursorPosition } from '@/hooks/use-cursor-position';
+import { useCopyToClipboard } from '@/hooks/use-copy-to-clipboard';
+import { useI18n } from '@/hooks/use-i18n';
+
+const FORMAT_LABELS: Record<CoordinateDisplayFormat, string> = {
+  dd: 'DD',
+  dms: 'DMS',
+  utm: 'UTM',
+};
+
+// Pointer position in the chosen format; clicking it copies that text (a
+// right-click on the map copies the point under the pointer, see CursorTracker)
+const CursorReadout = ({ className }: { className?: string }) => {
+  const { position, overMap, format, setCursorFormat } = useCursorPosition();
+  const copy = useCopyToClipboard();
+  const { locale, t } = useI18n();
+
+  const text = position
+    ? formatCoordinates(locale, position.latitude, position.longitude, format)
+    : null;
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-1 rounded-lg bg-white/90 p-1 text-xs shadow',
+        className
+      )}
+    >
+      <div className="flex" role="radiogroup" aria-label={t('cursor.format')}>
+        {DISPLAY_FORMATS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={format === option}
+            title={t(`cursor.format.${option}`)}
+            onClick={() => setCursorFormat(option)}
+            className={cn(
+              'rounded px-1.5 py-0.5 font-medium',
+              format === option ? 'bg-map-primary text-white' : 'text-gray-500 hover:bg-gray-100'
+            )}
+          >
+            {FORMAT_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      <button
+        type="button"
+        disabled={!text}
+        onClick={() => text && copy(text, t('cursor.position'))}
+        title={t('cursor.copy')}
+        className={cn(
+          'flex min-w-52 items-center justify-between gap-2 rounded px-1.5 py-0.5 font-mono tabular-nums hover:bg-gray-100 disabled:hover:bg-transparent',
+          !overMap && 'text-gray-400'
+        )}
+      >
+        <span>{text ?? t('cursor.empty')}</span>
+        <Copy className="h-3 w-3 shrink-0" />
+      </button>
+    </div>
+  );
+};
+
+export default CursorReadout;
@@ -0,0 +1,32 @@
+import { Languages } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LOCALES, LOCALE_NAMES, isLocale } from '@/lib/i18n';
+import { useI18n } from '@/hooks/use-i18n';
+
+const LanguageSwitcher = ({ className }: { className?: string }) => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <Select value={locale} onValueChange={(value) => isLocale(value) && setLocale(value)}>
+      <SelectTrigger aria-label={t('language.label')} className={className}>
+        <Languages className="mr-2 h-4 w-4 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LOCALES.map((option) => (
+          <SelectItem key={option} value={option} lang={option}>
+            {LOCALE_NAMES[option]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default LanguageSwitcher;
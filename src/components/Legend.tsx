@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { cn } from '@/lib/utils';
+import type { LegendItem } from '@/lib/legend';
+import { useI18n } from '@/hooks/use-i18n';
+import { useLegend } from '@/hooks/use-legend';
+
+// Swatch drawn like the map draws the feature: a filled and outlined square,
+// a line or a dot
+function LegendSwatch({ item }: { item: LegendItem }) {
+  const stroke = {
+    stroke: item.color ?? 'none',
+    strokeOpacity: item.opacity,
+  };
+  const fill = {
+    fill: item.fillColor ?? 'none',
+    fillOpacity: item.fillOpacity,
+  };
+
+  return (
+    <svg viewBox="0 0 20 14" className="h-3.5 w-5 shrink-0" aria-hidden>
+      {item.symbol === 'line' ? (
+        <line x1="1" y1="7" x2="19" y2="7" strokeWidth="2.5" {...stroke} />
+      ) : item.symbol === 'point' ? (
+        <circle cx="10" cy="7" r="4.5" strokeWidth="1.5" {...stroke} {...fill} />
+      ) : (
+        <rect x="1" y="1" width="18" height="12" rx="1" strokeWidth="1.5" {...stroke} {...fill} />
+      )}
+    </svg>
+  );
+}
+
+// Legend of the visible layers, following their current styles; folds down
+// to its title
+const Legend = ({ className }: { className?: string }) => {
+  const groups = useLegend();
+  const { t } = useI18n();
+  const [open, setOpen] = useState(true);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className={cn('w-56 rounded-lg bg-white/90 text-xs shadow', className)}
+    >
+      <CollapsibleTrigger
+        className="flex w-full items-center justify-between gap-2 px-2 py-1 font-medium"
+        title={t(open ? 'legend.collapse' : 'legend.expand')}
+      >
+        {t('legend.title')}
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronUp className="h-3 w-3" />}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="flex max-h-64 flex-col gap-2 overflow-y-auto px-2 pb-2">
+        {groups.map((group) => (
+          <div key={group.id} className="flex flex-col gap-0.5">
+            {group.kind === 'simple' ? (
+              <div className="flex items-center gap-2">
+                <LegendSwatch item={group.items[0]} />
+                <span className="truncate">{group.title}</span>
+              </div>
+            ) : (
+              <>
+                <p className="truncate font-medium" title={group.field}>
+                  {group.title}
+                  <span className="font-normal text-gray-500"> · {group.field}</span>
+                </p>
+                <ul className="flex flex-col gap-0.5">
+                  {group.items.map((item, index) => (
+                    <li key={`${index}:${item.label}`} className="flex items-center gap-2">
+                      <LegendSwatch item={item} />
+                      <span className="truncate">{item.label}</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default Legend;
@@ -1,23 +1,68 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/components/ui/use-toast';
-import { Minus, Plus, RotateCw, Navigation } from 'lucide-react';
-import { MapContainer, TileLayer, useMap } from 'react-leaflet';
+import { ArrowLeft, ArrowRight, Minus, Plus, RotateCw, Navigation, X } from 'lucide-react';
+import { MapContainer, useMapEvents } from 'react-leaflet';
+import { useStore } from '@/lib/store';
 import 'leaflet/dist/leaflet.css';
+import BasemapLayer from '@/components/map/BasemapLayer';
+import VectorTileLayer from '@/components/map/VectorTileLayer';
+import { useLayerRegistry } from '@/hooks/use-layer-registry';
+import { registerLayers, showOnlyLayers, useLayerManager } from '@/hooks/use-layer-manager';
+import { selectBasemap, useBasemaps } from '@/hooks/use-basemaps';
+import { clearSelection, selectFeature, useSelection } from '@/hooks/use-selection';
+import { useInitialPermalink, usePermalinkSync } from '@/hooks/use-permalink';
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  DEFAULT_VIEW,
+  fitBoundsStore,
+  setMapView,
+  useInitialMapView,
+  useMapView,
+} from '@/hooks/use-map-view';
+import { applyBookmark, useBookmarks } from '@/hooks/use-bookmarks';
+import { useTrackViewHistory, useViewHistory } from '@/hooks/use-view-history';
+import { useMapTool, type MapTool } from '@/hooks/use-map-tool';
+import { IMPORTED_ID_PREFIX, useImportedLayers } from '@/hooks/use-imported-layers';
+import { useFileImport } from '@/hooks/use-file-import';
+import { isPrinting, usePrint } from '@/hooks/use-print';
+import LotFocus, { type LotStatus } from '@/components/map/LotFocus';
+import SelectionController from '@/components/map/SelectionController';
+import FeaturePopup from '@/components/map/FeaturePopup';
+import CursorTracker from '@/components/map/CursorTracker';
+import MeasureLayer from '@/components/map/MeasureLayer';
+import SketchLayer from '@/components/map/SketchLayer';
+import ImportedOverlay from '@/components/map/ImportedOverlay';
+import PrintRenderer from '@/components/map/PrintRenderer';
+import MeasureControls from '@/components/MeasureControls';
+import PrintDialog from '@/components/PrintDialog';
+import ScaleInput from '@/components/ScaleInput';
+import ScaleBar from '@/components/ScaleBar';
+import Legend from '@/components/Legend';
+import CursorReadout from '@/components/CursorReadout';
+import AttributeInspector from '@/components/panels/AttributeInspector';
+import CoordinateBox from '@/components/CoordinateBox';
+import {
+  CoordinateParseError,
+  parseCoordinates,
+  type ParsedCoordinates,
+} from '@/lib/coordinates';
+import type { MessageKey } from '@/lib/i18n';
+import type { LayerView } from '@/lib/layers';
+import { findLoadedProperties } from '@/lib/vector-grids';
+import { roundScale, scaleDenominator, zoomForScale } from '@/lib/scale';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
 
 // Fix for default marker icons in Leaflet with React
 import L from 'leaflet';
 import icon from 'leaflet/dist/images/marker-icon.png';
 import iconShadow from 'leaflet/dist/images/marker-shadow.png';
 
-// Import Leaflet Vector Grid for PBF tiles
-import 'leaflet.vectorgrid';
-
 const DefaultIcon = L.icon({
   iconUrl: icon,
   shadowUrl: iconShadow,
@@ -27,265 +72,541 @@ const DefaultIcon = L.icon({
 
 L.Marker.prototype.options.icon = DefaultIcon;
 
-interface Coordinates {
-  latitude: number;
-  longitude: number;
-  zoom: number;
+type Coordinates = LayerView;
+
+// Zoom clamp used when no overlay is visible
+const FALLBACK_ZOOM_RANGE = { min: 10, max: 21 };
+
+// Title and hint of the card shown when a lot from the URL is not found
+const LOT_MESSAGES: Record<Exclude<LotStatus, 'searching' | 'found'>, [MessageKey, MessageKey]> = {
+  'not-found': ['lot.notFound', 'lot.notFoundHint'],
+  'not-loaded': ['lot.notLoaded', 'lot.notLoadedHint'],
+  error: ['lot.error', 'lot.errorHint'],
+};
+
+// Usage reminder shown above the map while a tool is active
+const TOOL_HINTS: Record<MapTool, MessageKey> = {
+  'measure-distance': 'measure.hint',
+  'measure-area': 'measure.hint',
+  'sketch-point': 'sketch.hint.point',
+  'sketch-line': 'sketch.hint.shape',
+  'sketch-polygon': 'sketch.hint.shape',
+};
+
+// Margin left on each side of fitted extents, and how close fitting may zoom
+// in (a single point would otherwise zoom all the way)
+const FIT_PADDING = 40;
+const FIT_MAX_ZOOM = 19;
+
+// Map views are rounded before they reach React state, so "same view" has to
+// tolerate that rounding or every moveend would trigger another setView
+const COORDINATE_EPSILON = 1e-6;
+const ZOOM_EPSILON = 0.005;
+
+function viewFromMap(map: L.Map): Coordinates {
+  const center = map.getCenter();
+  return {
+    latitude: Number(center.lat.toFixed(6)),
+    longitude: Number(center.lng.toFixed(6)),
+    zoom: Number(map.getZoom().toFixed(2)),
+  };
+}
+
+function isSameView(a: Coordinates, b: Coordinates) {
+  return (
+    Math.abs(a.latitude - b.latitude) < COORDINATE_EPSILON &&
+    Math.abs(a.longitude - b.longitude) < COORDINATE_EPSILON &&
+    Math.abs(a.zoom - b.zoom) < ZOOM_EPSILON
+  );
 }
 
-// Component to handle vector tiles
-function VectorTileLayer() {
-  const map = useMap();
-  
+// Component to keep the map view and the coordinates state in sync, both ways
+function MapController({
+  coordinates,
+  onViewChange,
+}: {
+  coordinates: Coordinates;
+  onViewChange: (view: Coordinates) => void;
+}) {
+  const map = useMapEvents({
+    moveend: () => {
+      if (isPrinting()) return;
+      const view = viewFromMap(map);
+      if (!isSameView(view, coordinates)) onViewChange(view);
+    },
+  });
+
+  // Panels docking next to the map change its size without a window resize
   useEffect(() => {
-    // Generate unique layer ID
-    const layerId = "vector-tile-layer";
-    
-    // Remove existing layer if it exists
-    if (map.hasLayer(layerId)) {
-      map.removeLayer(layerId);
-    }
-    
-    // PBF Vector tile URL for the cadastro.lote layer
-    const vectorTileUrl = 'https://tiles-goiania.geo360.com.br/tiles/cadastro.lote/{z}/{x}/{y}.pbf';
-    
-    // Style for vector features
-    const vectorTileOptions = {
-      rendererFactory: L.canvas.tile,
-      vectorTileLayerStyles: {
-        'cadastro.lote': function(properties: any) {
-          return {
-            fillColor: '#3388ff',
-            fillOpacity: 0.2,
-            color: '#3388ff',
-            weight: 1,
-            opacity: 0.6,
-          };
-        }
-      },
-      interactive: true,
-      minZoom: 10,
-      maxZoom: 22,
-      getFeatureId: function(feature: any) {
-        return feature.properties.id;
-      },
-    };
-    
-    // Create and add vector tile layer
-    const vectorGrid = (L as any).vectorGrid.protobuf(vectorTileUrl, vectorTileOptions);
-    
-    // Add popup with feature properties when clicked
-    vectorGrid.on('click', function(e: any) {
-      if (e.layer && e.layer.properties) {
-        const properties = e.layer.properties;
-        const content = Object.keys(properties)
-          .filter(key => key !== 'id') // Skip id property
-          .map(key => `<b>${key}:</b> ${properties[key] || 'N/A'}`)
-          .join('<br>');
-        
-        L.popup()
-          .setLatLng(e.latlng)
-          .setContent(`<div style="max-height: 200px; overflow-y: auto;">${content}</div>`)
-          .openOn(map);
-      }
-    });
-    
-    vectorGrid.addTo(map);
-    
-    return () => {
-      if (map.hasLayer(vectorGrid)) {
-        map.removeLayer(vectorGrid);
-      }
-    };
+    const observer = new ResizeObserver(() => map.invalidateSize());
+    observer.observe(map.getContainer());
+    return () => observer.disconnect();
   }, [map]);
-  
-  return null;
-}
 
-// Component to handle map center and zoom changes
-function MapController({ coordinates }: { coordinates: Coordinates }) {
-  const map = useMap();
-  
+  const fitRequest = useStore(fitBoundsStore);
   useEffect(() => {
+    if (!fitRequest) return;
+    fitBoundsStore.setState(null);
+    const bounds = L.latLngBounds(fitRequest.bounds);
+    const zoom = map.getBoundsZoom(bounds, false, L.point(FIT_PADDING * 2, FIT_PADDING * 2));
+    const center = bounds.getCenter();
+    onViewChange({
+      latitude: Number(center.lat.toFixed(6)),
+      longitude: Number(center.lng.toFixed(6)),
+      zoom: Number(Math.min(zoom, fitRequest.maxZoom ?? FIT_MAX_ZOOM).toFixed(2)),
+    });
+  }, [fitRequest, map, onViewChange]);
+
+  useEffect(() => {
+    if (isSameView(viewFromMap(map), coordinates)) return;
     map.setView([coordinates.latitude, coordinates.longitude], coordinates.zoom);
   }, [coordinates, map]);
-  
+
   return null;
 }
 
 const MapViewer = () => {
   const { toast } = useToast();
-  const [coordinates, setCoordinates] = useState<Coordinates>({
-    latitude: -16.667295,
-    longitude: -49.327279,
-    zoom: 17.15
-  });
-  const [inputCoordinates, setInputCoordinates] = useState<Coordinates>({
-    latitude: -16.667295,
-    longitude: -49.327279,
-    zoom: 17.15
-  });
+  const { t, formatNumber } = useI18n();
+  const { data: registry, error: registryError } = useLayerRegistry();
+  const { order, overlays, basemap } = useLayerManager();
+  const { active: activeBasemap } = useBasemaps();
+  const { selected, current: currentFeature } = useSelection();
+  const { home } = useBookmarks();
+  const mapTool = useMapTool();
+  const importedLayers = useImportedLayers();
+  const importFiles = useFileImport();
+  const [draggingFiles, setDraggingFiles] = useState(false);
+  const { printing } = usePrint();
+  const permalink = useInitialPermalink();
+  const { id: routeLotId } = useParams<{ id?: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [lotStatus, setLotStatus] = useState<LotStatus | null>(null);
+  const lotLayer = registry?.layers.find((layer) => layer.id === registry.lotLayer);
+  useInitialMapView(permalink.view);
+  const coordinates = useMapView();
+  const [inputZoom, setInputZoom] = useState(coordinates.zoom);
+  const permalinkApplied = useRef(false);
 
-  // Handle coordinate input change
-  const handleInputChange = (
-    e: React.ChangeEvent<HTMLInputElement>,
-    field: keyof Coordinates
-  ) => {
-    const value = parseFloat(e.target.value);
-    setInputCoordinates((prev) => ({
-      ...prev,
-      [field]: value,
-    }));
-  };
+  const defaultView = registry?.defaultView ?? DEFAULT_VIEW;
+
+  // Zoom range of the visible overlays: from their TileJSON minzoom, and past
+  // their maxzoom as far as they are overzoomed (see resolveLayer)
+  const zoomRange = useMemo(() => {
+    const visible = (registry?.layers ?? []).filter(
+      (layer) => overlays[layer.id]?.visible
+    );
+    if (visible.length === 0) return FALLBACK_ZOOM_RANGE;
+    return {
+      min: Math.min(...visible.map((layer) => layer.minZoom)),
+      max: Math.max(...visible.map((layer) => layer.maxZoom)),
+    };
+  }, [registry, overlays]);
 
-  // Navigate to input coordinates
-  const handleNavigate = () => {
-    // Validate input
-    if (
-      isNaN(inputCoordinates.latitude) ||
-      isNaN(inputCoordinates.longitude) ||
-      isNaN(inputCoordinates.zoom)
-    ) {
+  useEffect(() => {
+    if (permalink.basemap) selectBasemap(permalink.basemap);
+  }, [permalink]);
+
+  // Layers and lot from the URL need the registry to be known first
+  useEffect(() => {
+    if (!registry) return;
+    registerLayers(registry.layers);
+    if (permalinkApplied.current) return;
+    permalinkApplied.current = true;
+    if (permalink.layers) showOnlyLayers(permalink.layers);
+    if (permalink.lot && registry.lotLayer) {
+      const { lotLayer } = registry;
+      selectFeature({
+        layerId: lotLayer,
+        id: permalink.lot,
+        properties: findLoadedProperties(lotLayer, permalink.lot) ?? {},
+      });
+    }
+  }, [registry, permalink]);
+
+  usePermalinkSync(
+    {
+      view: coordinates,
+      // Imported files are local to this session and cannot be shared
+      layers: order.filter((id) => overlays[id]?.visible && !id.startsWith(IMPORTED_ID_PREFIX)),
+      basemap: activeBasemap.id,
+      // On /lote/:id the path already names the lot
+      lot:
+        !routeLotId && currentFeature?.layerId === registry?.lotLayer
+          ? currentFeature?.id
+          : undefined,
+    },
+    registry !== undefined,
+    // Browser back/forward returns to the view of that entry
+    (popped) => {
+      if (popped.view) setMapView(popped.view);
+    }
+  );
+
+  useTrackViewHistory();
+  const { canGoBack, canGoForward, goBack, goForward } = useViewHistory();
+
+  // "[" and "]" step through the view history (Alt+arrows work natively)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === '[') goBack();
+      if (e.key === ']') goForward();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [goBack, goForward]);
+
+  // Once the user moves on to another lot, leave the /lote/:id route behind
+  useEffect(() => {
+    if (!routeLotId || lotStatus !== 'found') return;
+    if (currentFeature?.layerId === registry?.lotLayer && currentFeature?.id === routeLotId) return;
+    navigate({ pathname: '/', search: location.search, hash: location.hash }, { replace: true });
+  }, [routeLotId, lotStatus, currentFeature, registry, location.search, location.hash, navigate]);
+
+  useEffect(() => {
+    if (!routeLotId) setLotStatus(null);
+  }, [routeLotId]);
+
+  // Adopt the configured (or TileJSON) view unless the user already moved
+  useEffect(() => {
+    if (!registry?.defaultView) return;
+    const view = registry.defaultView;
+    setMapView((prev) => (prev === DEFAULT_VIEW ? view : prev));
+  }, [registry]);
+
+  // The zoom input follows the map, whoever moved it
+  useEffect(() => {
+    setInputZoom(coordinates.zoom);
+  }, [coordinates.zoom]);
+
+  // Navigate to what the coordinate box and zoom input hold
+  const handleNavigate = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    let parsed: ParsedCoordinates;
+    try {
+      parsed = parseCoordinates(
+        String(new FormData(e.currentTarget).get('coordinates') ?? ''),
+        coordinates
+      );
+    } catch (error) {
+      if (!(error instanceof CoordinateParseError)) throw error;
       toast({
-        title: "Invalid coordinates",
-        description: "Please enter valid numeric coordinates",
+        title: t("map.invalidCoordinates"),
+        description: t(`coordinates.error.${error.code}` as MessageKey),
+        variant: "destructive"
+      });
+      return;
+    }
+    if (isNaN(inputZoom)) {
+      toast({
+        title: t("map.invalidCoordinates"),
+        description: t("map.invalidZoom"),
         variant: "destructive"
       });
       return;
     }
 
-    // Update coordinates
-    setCoordinates(inputCoordinates);
+    const target = { latitude: parsed.latitude, longitude: parsed.longitude, zoom: inputZoom };
+    setMapView(target);
     toast({
-      title: "Map updated",
-      description: `Navigated to ${inputCoordinates.latitude}, ${inputCoordinates.longitude} at zoom ${inputCoordinates.zoom}`,
+      title: t("map.updated"),
+      description: t("map.updatedDescription", {
+        latitude: formatNumber(target.latitude, { maximumFractionDigits: 6 }),
+        longitude: formatNumber(target.longitude, { maximumFractionDigits: 6 }),
+        zoom: formatNumber(target.zoom, { maximumFractionDigits: 2 }),
+      }),
     });
   };
 
   // Handle zoom in/out
   const handleZoom = (increment: number) => {
-    const newZoom = Math.min(Math.max(coordinates.zoom + increment, 10), 21);
-    setCoordinates((prev) => ({
-      ...prev,
-      zoom: newZoom
-    }));
-    setInputCoordinates((prev) => ({
+    const newZoom = Math.min(
+      Math.max(coordinates.zoom + increment, zoomRange.min),
+      zoomRange.max
+    );
+    setMapView((prev) => ({
       ...prev,
       zoom: newZoom
     }));
   };
 
-  // Reset to default view
+  // Reset to the home bookmark, or the default view without one
   const handleReset = () => {
-    const defaultCoordinates = {
-      latitude: -16.667295,
-      longitude: -49.327279,
-      zoom: 17.15
-    };
-    setCoordinates(defaultCoordinates);
-    setInputCoordinates(defaultCoordinates);
+    if (home) applyBookmark(home);
+    else setMapView(defaultView);
     toast({
-      title: "Map reset",
-      description: "Returned to default view",
+      title: t("map.resetDone"),
+      description: home
+        ? t("map.resetDoneHome", { name: home.name })
+        : t("map.resetDoneDescription"),
     });
   };
 
   return (
     <div className="flex flex-col h-full">
-      <div className="flex flex-col lg:flex-row gap-4 mb-4 p-4 bg-white rounded-lg shadow">
+      <form
+        onSubmit={handleNavigate}
+        className="flex flex-col lg:flex-row gap-4 mb-4 p-4 bg-white rounded-lg shadow"
+      >
         <div className="flex flex-1 flex-col md:flex-row gap-4">
-          <div className="flex flex-col flex-1 gap-2">
-            <Label htmlFor="latitude">Latitude</Label>
-            <Input
-              id="latitude"
-              type="number"
-              step="0.000001"
-              value={inputCoordinates.latitude}
-              onChange={(e) => handleInputChange(e, 'latitude')}
-            />
-          </div>
-          <div className="flex flex-col flex-1 gap-2">
-            <Label htmlFor="longitude">Longitude</Label>
-            <Input
-              id="longitude"
-              type="number"
-              step="0.000001"
-              value={inputCoordinates.longitude}
-              onChange={(e) => handleInputChange(e, 'longitude')}
-            />
-          </div>
+          <CoordinateBox center={coordinates} />
           <div className="flex flex-col w-24 gap-2">
-            <Label htmlFor="zoom">Zoom</Label>
+            <Label htmlFor="zoom">{t('map.zoom')}</Label>
             <Input
               id="zoom"
               type="number"
               step="0.01"
-              value={inputCoordinates.zoom}
-              onChange={(e) => handleInputChange(e, 'zoom')}
+              value={inputZoom}
+              onChange={(e) => setInputZoom(parseFloat(e.target.value))}
+            />
+          </div>
+          {/* Scale and zoom are two views of the same input */}
+          <div className="flex flex-col w-40 gap-2">
+            <Label htmlFor="scale">{t('map.scale')}</Label>
+            <ScaleInput
+              id="scale"
+              value={
+                isNaN(inputZoom)
+                  ? null
+                  : roundScale(scaleDenominator(coordinates.latitude, inputZoom))
+              }
+              onChange={(denominator) => {
+                if (denominator === null) return;
+                setInputZoom(Number(zoomForScale(denominator, coordinates.latitude).toFixed(2)));
+              }}
+              onPick={(denominator) =>
+                setMapView((prev) => ({
+                  ...prev,
+                  zoom: Number(zoomForScale(denominator, prev.latitude).toFixed(2)),
+                }))
+              }
             />
           </div>
         </div>
-        <div className="flex gap-2 items-end">
-          <Button onClick={handleNavigate} className="bg-map-primary hover:bg-blue-700">
+        {/* Level with the inputs, above the coordinate box's feedback line */}
+        <div className="flex gap-2 items-end lg:mb-6">
+          <Button type="submit" className="bg-map-primary hover:bg-blue-700">
             <Navigation className="w-4 h-4 mr-2" />
-            Navigate
+            {t('map.navigate')}
           </Button>
-          <Button onClick={handleReset} variant="outline">
+          <Button type="button" onClick={handleReset} variant="outline">
             <RotateCw className="w-4 h-4 mr-2" />
-            Reset
+            {t('map.reset')}
           </Button>
         </div>
-      </div>
+      </form>
       
-      <div className="flex-1 relative rounded-lg shadow overflow-hidden">
-        <MapContainer
-          center={[coordinates.latitude, coordinates.longitude]}
-          zoom={coordinates.zoom}
-          style={{ height: '100%', width: '100%' }}
-          zoomControl={false}
+      <div className="flex flex-1 min-h-0 gap-4">
+        <div
+          className="flex-1 relative isolate rounded-lg shadow overflow-hidden"
+          // Files dropped on the map are imported as overlays
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes('Files')) return;
+            e.preventDefault();
+            setDraggingFiles(true);
+          }}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDraggingFiles(false);
+          }}
+          onDrop={(e) => {
+            if (!e.dataTransfer.types.includes('Files')) return;
+            e.preventDefault();
+            setDraggingFiles(false);
+            importFiles(Array.from(e.dataTransfer.files));
+          }}
         >
-          <TileLayer
-            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-          />
-          <VectorTileLayer />
-          <MapController coordinates={coordinates} />
-        </MapContainer>
-        
-        <div className="absolute top-4 right-4 flex flex-col gap-2 bg-white rounded-lg shadow p-2">
-          <Button
-            variant="outline"
-            size="icon"
-            onClick={() => handleZoom(1)}
-            title="Zoom In"
+          <MapContainer
+            center={[coordinates.latitude, coordinates.longitude]}
+            zoom={coordinates.zoom}
+            style={{ height: '100%', width: '100%' }}
+            zoomControl={false}
+            zoomSnap={0.01}
+            className={mapTool ? 'map-tool-active' : undefined}
           >
-            <Plus className="h-4 w-4" />
-          </Button>
-          <Button
-            variant="outline"
-            size="icon"
-            onClick={() => handleZoom(-1)}
-            title="Zoom Out"
-          >
-            <Minus className="h-4 w-4" />
-          </Button>
+            <BasemapLayer basemap={activeBasemap} display={basemap} />
+            {registry?.layers.map((layer) => (
+              <VectorTileLayer key={layer.id} layer={layer} />
+            ))}
+            {importedLayers.map((layer) => (
+              <ImportedOverlay key={layer.id} layer={layer} />
+            ))}
+            <MapController coordinates={coordinates} onViewChange={setMapView} />
+            <SelectionController />
+            <FeaturePopup />
+            <CursorTracker />
+            <SketchLayer />
+            <MeasureLayer />
+            <PrintRenderer />
+            {routeLotId && lotLayer && (
+              <LotFocus layer={lotLayer} lotId={routeLotId} onStatusChange={setLotStatus} />
+            )}
+          </MapContainer>
+
+          {routeLotId && lotStatus && lotStatus !== 'found' && (
+            <div className="absolute inset-x-0 top-4 z-[1000] flex justify-center px-4 pointer-events-none">
+              <Card className="max-w-md pointer-events-auto">
+                <CardContent className="p-4 flex flex-col gap-3">
+                  {lotStatus === 'searching' ? (
+                    <p className="text-sm">{t('lot.searching', { id: routeLotId })}</p>
+                  ) : (
+                    <>
+                      <div>
+                        <h3 className="font-medium">
+                          {t(LOT_MESSAGES[lotStatus][0], { id: routeLotId })}
+                        </h3>
+                        <p className="text-sm text-gray-500">{t(LOT_MESSAGES[lotStatus][1])}</p>
+                      </div>
+                      <div className="flex justify-end">
+                        <Button
+                          variant="outline"
+                          onClick={() =>
+                            navigate({ pathname: '/', search: location.search, hash: location.hash })
+                          }
+                        >
+                          {t('lot.back')}
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        
+          {(registryError || registry?.warnings.length > 0) && (
+            <div className="absolute top-4 left-4 z-[1000] max-w-sm rounded-lg bg-white p-3 text-sm text-red-600 shadow">
+              {registryError
+                ? t('map.registryError', { message: registryError.message })
+                : registry.warnings.map((warning) => <p key={warning}>{warning}</p>)}
+            </div>
+          )}
+
+          <div className="absolute bottom-6 left-4 z-[1000] flex flex-col items-start gap-2">
+            {selected.length > 0 && (
+              <div className="flex items-center gap-2 rounded-lg bg-white py-1 pl-3 pr-1 text-sm shadow">
+                <span>
+                  {t('selection.count', { count: selected.length })}
+                </span>
+                <Button variant="ghost" size="sm" onClick={clearSelection}>
+                  <X className="w-4 h-4 mr-1" />
+                  {t('selection.clear')}
+                </Button>
+              </div>
+            )}
+            <ScaleBar />
+          </div>
+
+          <div className="absolute bottom-6 right-4 z-[1000] flex flex-col items-end gap-2">
+            <Legend />
+            <CursorReadout />
+          </div>
+
+          {printing && (
+            <div className="absolute inset-0 z-[1001] flex items-center justify-center bg-white">
+              <p className="text-sm text-gray-500">{t('print.busy')}</p>
+            </div>
+          )}
+
+          {draggingFiles && (
+            <div className="pointer-events-none absolute inset-0 z-[1001] flex items-center justify-center rounded-lg border-2 border-dashed border-map-primary bg-white/60">
+              <p className="rounded-lg bg-white px-4 py-2 text-sm font-medium shadow">
+                {t('import.drop')}
+              </p>
+            </div>
+          )}
+
+          {mapTool && (
+            <p className="absolute top-4 left-1/2 z-[1000] -translate-x-1/2 rounded-lg bg-white px-3 py-1.5 text-xs text-gray-600 shadow">
+              {t(TOOL_HINTS[mapTool])}
+            </p>
+          )}
+
+          <div className="absolute top-4 right-4 z-[1000] flex flex-col gap-2 bg-white rounded-lg shadow p-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={goBack}
+              disabled={!canGoBack}
+              title={t('map.previousView')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={goForward}
+              disabled={!canGoForward}
+              title={t('map.nextView')}
+            >
+              <ArrowRight className="h-4 w-4" />
+            </Button>
+            <Separator />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => handleZoom(1)}
+              title={t('map.zoomIn')}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => handleZoom(-1)}
+              title={t('map.zoomOut')}
+            >
+              <Minus className="h-4 w-4" />
+            </Button>
+            <Separator />
+            <MeasureControls />
+            <Separator />
+            <PrintDialog />
+          </div>
         </div>
+
+        <AttributeInspector />
       </div>
 
       <Card className="mt-4">
         <CardContent className="p-4">
           <div className="flex flex-col md:flex-row justify-between gap-4">
             <div>
-              <h3 className="font-medium text-sm text-gray-500">Current View</h3>
+              <h3 className="font-medium text-sm text-gray-500">{t('map.currentView')}</h3>
               <p className="text-sm font-mono">
-                Lat: {coordinates.latitude.toFixed(6)}, 
-                Lng: {coordinates.longitude.toFixed(6)}, 
-                Zoom: {coordinates.zoom.toFixed(2)}
+                {t('map.currentViewSummary', {
+                  latitude: formatNumber(coordinates.latitude, {
+                    minimumFractionDigits: 6,
+                    maximumFractionDigits: 6,
+                  }),
+                  longitude: formatNumber(coordinates.longitude, {
+                    minimumFractionDigits: 6,
+                    maximumFractionDigits: 6,
+                  }),
+                  zoom: formatNumber(coordinates.zoom, {
+                    minimumFractionDigits: 2,
+                    maximumFractionDigits: 2,
+                  }),
+                })}
               </p>
             </div>
             <div>
-              <h3 className="font-medium text-sm text-gray-500">Map Layers</h3>
-              <p className="text-sm font-mono">OpenStreetMap + Goiânia Vector Tiles</p>
+              <h3 className="font-medium text-sm text-gray-500">{t('map.activeLayers')}</h3>
+              <p className="text-sm font-mono">
+                {[
+                  ...(basemap.visible && activeBasemap.url !== null
+                    ? [activeBasemap.name]
+                    : []),
+                  ...[...(registry?.layers ?? []), ...importedLayers]
+                    .filter((layer) => overlays[layer.id]?.visible)
+                    .map((layer) => layer.name),
+                ].join(' + ') || '—'}
+              </p>
             </div>
           </div>
         </CardContent>
@@ -0,0 +1,46 @@
+import { Eraser, Pentagon, Ruler } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { MessageKey } from '@/lib/i18n';
+import { useI18n } from '@/hooks/use-i18n';
+import { toggleMapTool, useMapTool, type MapTool } from '@/hooks/use-map-tool';
+import { clearMeasurements, useMeasurements } from '@/hooks/use-measurements';
+
+const TOOLS: { tool: MapTool; icon: typeof Ruler; label: MessageKey }[] = [
+  { tool: 'measure-distance', icon: Ruler, label: 'measure.distance' },
+  { tool: 'measure-area', icon: Pentagon, label: 'measure.area' },
+];
+
+// Map control buttons for the measuring tools
+const MeasureControls = () => {
+  const { t } = useI18n();
+  const activeTool = useMapTool();
+  const { measurements, draft } = useMeasurements();
+
+  return (
+    <>
+      {TOOLS.map(({ tool, icon: Icon, label }) => (
+        <Button
+          key={tool}
+          variant={activeTool === tool ? 'default' : 'outline'}
+          size="icon"
+          onClick={() => toggleMapTool(tool)}
+          title={t(label)}
+          aria-pressed={activeTool === tool}
+        >
+          <Icon className="h-4 w-4" />
+        </Button>
+      ))}
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={clearMeasurements}
+        disabled={measurements.length === 0 && !draft}
+        title={t('measure.clear')}
+      >
+        <Eraser className="h-4 w-4" />
+      </Button>
+    </>
+  );
+};
+
+export default MeasureControls;
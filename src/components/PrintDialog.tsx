@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import ScaleInput from '@/components/ScaleInput';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ORIENTATIONS,
+  PAPER_SIZES,
+  PRINT_DPIS,
+  PRINT_FORMATS,
+  mmToPixels,
+  pageLayout,
+  type Orientation,
+  type PaperSize,
+  type PrintFormat,
+  type PrintOptions,
+} from '@/lib/print';
+import { roundScale, scaleDenominator } from '@/lib/scale';
+import { useI18n } from '@/hooks/use-i18n';
+import { useMapView } from '@/hooks/use-map-view';
+import { requestPrint, usePrint } from '@/hooks/use-print';
+
+// Map control opening the print settings
+const PrintDialog = () => {
+  const { t, formatNumber } = useI18n();
+  const { settings, printing } = usePrint();
+  const { latitude, zoom } = useMapView();
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<PrintOptions>(settings);
+
+  const update = (patch: Partial<PrintOptions>) =>
+    setOptions((prev) => ({ ...prev, ...patch }));
+
+  const { page } = pageLayout(options);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (next) setOptions(settings);
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" disabled={printing} title={t('print.open')}>
+          <Printer className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('print.title')}</DialogTitle>
+          <DialogDescription>{t('print.description')}</DialogDescription>
+        </DialogHeader>
+        <form
+          id="print-form"
+          className="flex flex-col gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            requestPrint({ ...options, title: options.title.trim() });
+            setOpen(false);
+          }}
+        >
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="print-title">{t('print.mapTitle')}</Label>
+            <Input
+              id="print-title"
+              value={options.title}
+              placeholder={t('app.title')}
+              onChange={(e) => update({ title: e.target.value })}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="print-scale">{t('print.mapScale')}</Label>
+            <ScaleInput
+              id="print-scale"
+              value={options.scale}
+              onChange={(scale) => update({ scale })}
+              placeholder={t('print.scaleScreen', {
+                scale: `1:${formatNumber(roundScale(scaleDenominator(latitude, zoom)))}`,
+              })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="print-paper">{t('print.paper')}</Label>
+              <Select
+                value={options.paper}
+                onValueChange={(paper) => update({ paper: paper as PaperSize })}
+              >
+                <SelectTrigger id="print-paper">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PAPER_SIZES) as PaperSize[]).map((paper) => (
+                    <SelectItem key={paper} value={paper}>
+                      {t(`print.paper.${paper}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="print-orientation">{t('print.orientation')}</Label>
+              <Select
+                value={options.orientation}
+                onValueChange={(orientation) => update({ orientation: orientation as Orientation })}
+              >
+                <SelectTrigger id="print-orientation">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORIENTATIONS.map((orientation) => (
+                    <SelectItem key={orientation} value={orientation}>
+                      {t(`print.orientation.${orientation}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="print-dpi">{t('print.dpi')}</Label>
+              <Select
+                value={String(options.dpi)}
+                onValueChange={(dpi) => update({ dpi: Number(dpi) })}
+              >
+                <SelectTrigger id="print-dpi">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRINT_DPIS.map((dpi) => (
+                    <SelectItem key={dpi} value={String(dpi)}>
+                      {t('print.dpiValue', { dpi })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="print-format">{t('print.format')}</Label>
+              <Select
+                value={options.format}
+                onValueChange={(format) => update({ format: format as PrintFormat })}
+              >
+                <SelectTrigger id="print-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRINT_FORMATS.map((format) => (
+                    <SelectItem key={format} value={format}>
+                      {format.toUpperCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('print.size', {
+              width: formatNumber(mmToPixels(page.width, options.dpi)),
+              height: formatNumber(mmToPixels(page.height, options.dpi)),
+            })}
+          </p>
+        </form>
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button type="submit" form="print-form">
+            {t('print.submit')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PrintDialog;
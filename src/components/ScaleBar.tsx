@@ -0,0 +1,38 @@
+import { cn } from '@/lib/utils';
+import { formatDistance } from '@/lib/geodesy';
+import { metersPerPixel, roundScale, scaleBarLength, scaleDenominator } from '@/lib/scale';
+import { useI18n } from '@/hooks/use-i18n';
+import { useMapView } from '@/hooks/use-map-view';
+
+// Widest the bar gets, in pixels
+const MAX_BAR_WIDTH = 100;
+
+// Scale bar and 1:N readout of the map at its center latitude
+const ScaleBar = ({ className }: { className?: string }) => {
+  const { latitude, zoom } = useMapView();
+  const { locale, t, formatNumber } = useI18n();
+
+  const resolution = metersPerPixel(latitude, zoom);
+  const length = scaleBarLength(resolution * MAX_BAR_WIDTH);
+
+  return (
+    <div
+      className={cn(
+        'flex items-end gap-3 rounded-lg bg-white/90 px-2 py-1 text-xs shadow',
+        className
+      )}
+      title={t('scale.title')}
+    >
+      <div className="flex flex-col items-start">
+        <span>{formatDistance(locale, length)}</span>
+        <div
+          className="h-1.5 border-2 border-t-0 border-gray-700"
+          style={{ width: length / resolution }}
+        />
+      </div>
+      <span className="font-mono">1:{formatNumber(roundScale(scaleDenominator(latitude, zoom)))}</span>
+    </div>
+  );
+};
+
+export default ScaleBar;
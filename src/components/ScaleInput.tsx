@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { PRESET_SCALES, parseScale } from '@/lib/scale';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface ScaleInputProps {
+  id?: string;
+  // Denominator shown while the field is not being edited
+  value: number | null;
+  // Called as the user types, with null once the field is emptied;
+  // unreadable text is flagged and not reported
+  onChange: (denominator: number | null) => void;
+  // Called when a preset is picked, instead of onChange when given
+  onPick?: (denominator: number) => void;
+  placeholder?: string;
+}
+
+// Text field for a 1:N scale, with the usual scales to pick from
+const ScaleInput = ({ id, value, onChange, onPick, placeholder }: ScaleInputProps) => {
+  const { t, formatNumber } = useI18n();
+  const format = (denominator: number | null) =>
+    denominator === null ? '' : `1:${formatNumber(denominator)}`;
+  const [text, setText] = useState(format(value));
+  const editing = useRef(false);
+
+  // Follow the value unless the user is typing over it
+  const shown = format(value);
+  useEffect(() => {
+    if (!editing.current) setText(shown);
+  }, [shown]);
+
+  const invalid = text.trim() !== '' && parseScale(text) === null;
+
+  return (
+    <div className="flex">
+      <Input
+        id={id}
+        value={text}
+        placeholder={placeholder}
+        aria-invalid={invalid}
+        className={cn('rounded-r-none', invalid && 'border-destructive')}
+        onFocus={() => {
+          editing.current = true;
+        }}
+        onBlur={() => {
+          editing.current = false;
+          setText(shown);
+        }}
+        onChange={(e) => {
+          setText(e.target.value);
+          if (e.target.value.trim() === '') onChange(null);
+          const denominator = parseScale(e.target.value);
+          if (denominator !== null) onChange(denominator);
+        }}
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="shrink-0 rounded-l-none border-l-0"
+            title={t('scale.presets')}
+          >
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {PRESET_SCALES.map((denominator) => (
+            <DropdownMenuItem
+              key={denominator}
+              onSelect={() => (onPick ?? onChange)(denominator)}
+            >
+              {format(denominator)}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
+
+export default ScaleInput;
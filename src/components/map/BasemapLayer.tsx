@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import { TileLayer, useMap } from 'react-leaflet';
+import type { BasemapDefinition } from '@/lib/basemaps';
+import type { LayerDisplayState } from '@/hooks/use-layer-manager';
+
+interface BasemapLayerProps {
+  basemap: BasemapDefinition;
+  display: LayerDisplayState;
+}
+
+// Component to handle the raster basemap under the vector overlays
+function BasemapLayer({ basemap, display }: BasemapLayerProps) {
+  const map = useMap();
+  const blank = basemap.url === null || !display.visible;
+
+  // Without tiles, paint the map white instead of Leaflet's grey so the
+  // overlays print on a clean background
+  useEffect(() => {
+    const container = map.getContainer();
+    container.style.background = blank ? '#fff' : '';
+    return () => {
+      container.style.background = '';
+    };
+  }, [blank, map]);
+
+  if (blank) return null;
+
+  return (
+    <TileLayer
+      // Remount when switching basemaps: url is the only option TileLayer updates in place
+      key={basemap.id}
+      url={basemap.url}
+      attribution={basemap.attribution}
+      subdomains={basemap.subdomains ?? 'abc'}
+      // Loaded with CORS so prints can read them back (see basemapSchema)
+      crossOrigin={(basemap.cors ?? !basemap.custom) ? 'anonymous' : undefined}
+      maxNativeZoom={basemap.maxNativeZoom}
+      maxZoom={basemap.maxZoom}
+      className={basemap.grayscale ? 'basemap-grayscale' : undefined}
+      opacity={display.opacity}
+      zIndex={1}
+    />
+  );
+}
+
+export default BasemapLayer;
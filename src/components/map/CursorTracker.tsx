@@ -0,0 +1,29 @@
+import { useMapEvents } from 'react-leaflet';
+import { formatCoordinates } from '@/lib/coordinates';
+import { cursorFormatStore, leaveMap, setCursorPosition } from '@/hooks/use-cursor-position';
+import { useCopyToClipboard } from '@/hooks/use-copy-to-clipboard';
+import { useI18n } from '@/hooks/use-i18n';
+
+// Component to report the pointer position over the map to the readout. A
+// right-click copies the point under the pointer in the readout's format:
+// the readout itself can only be reached by leaving the map.
+function CursorTracker() {
+  const copy = useCopyToClipboard();
+  const { locale, t } = useI18n();
+
+  useMapEvents({
+    mousemove: (e) => {
+      setCursorPosition({ latitude: e.latlng.lat, longitude: e.latlng.lng });
+    },
+    mouseout: leaveMap,
+    contextmenu: (e) => {
+      setCursorPosition({ latitude: e.latlng.lat, longitude: e.latlng.lng });
+      const format = cursorFormatStore.getState();
+      copy(formatCoordinates(locale, e.latlng.lat, e.latlng.lng, format), t('cursor.position'));
+    },
+  });
+
+  return null;
+}
+
+export default CursorTracker;
@@ -0,0 +1,63 @@
+import { Popup } from 'react-leaflet';
+import AttributeValue from '@/components/AttributeValue';
+import { describeAttributes } from '@/lib/fields';
+import { useLayerRegistry } from '@/hooks/use-layer-registry';
+import { closeFeaturePopup, useFeaturePopup } from '@/hooks/use-feature-popup';
+import { useI18n } from '@/hooks/use-i18n';
+
+// Attributes shown when the layer config does not list popup fields
+const DEFAULT_FIELD_COUNT = 8;
+
+// Component to show a quick look at the clicked feature. The content is
+// rendered by React into the Leaflet popup (react-leaflet portals it), so
+// attribute values are never interpreted as HTML.
+function FeaturePopup() {
+  const { data: registry } = useLayerRegistry();
+  const popup = useFeaturePopup();
+  const { locale, t } = useI18n();
+  const layer = registry?.layers.find((candidate) => candidate.id === popup?.layerId);
+
+  if (!popup || !layer) return null;
+
+  const attributes = describeAttributes(popup.properties, layer.dictionary, locale).filter(
+    (attribute) => !layer.popup.exclude.includes(attribute.name)
+  );
+  const fields = layer.popup.fields;
+  const shown = fields
+    ? fields
+        .map((name) => attributes.find((attribute) => attribute.name === name))
+        .filter((attribute) => attribute !== undefined)
+    : attributes.slice(0, DEFAULT_FIELD_COUNT);
+  const hidden = attributes.length - shown.length;
+
+  return (
+    <Popup
+      position={popup.latlng}
+      eventHandlers={{ remove: closeFeaturePopup }}
+      maxWidth={320}
+    >
+      <div className="max-h-52 overflow-y-auto text-sm">
+        <p className="mb-1 font-medium">{layer.name}</p>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5">
+          {shown.map((attribute) => (
+            <div key={attribute.name} className="contents">
+              <dt className="font-semibold" title={attribute.name}>
+                {attribute.label}
+              </dt>
+              <dd>
+                <AttributeValue value={attribute.value} text={attribute.text} />
+              </dd>
+            </div>
+          ))}
+        </dl>
+        {hidden > 0 && (
+          <p className="mt-1 text-xs text-gray-500">
+            {t('popup.more', { count: hidden })}
+          </p>
+        )}
+      </div>
+    </Popup>
+  );
+}
+
+export default FeaturePopup;
@@ -0,0 +1,111 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Popup, useMap } from 'react-leaflet';
+import L, { type LatLngLiteral } from 'leaflet';
+import type { Feature } from 'geojson';
+import AttributeValue from '@/components/AttributeValue';
+import { describeAttributes } from '@/lib/fields';
+import {
+  overlayPane,
+  overlayPaneName,
+  removeOverlayPane,
+  stackOverlayPane,
+} from '@/lib/map-panes';
+import type { FeatureProperties } from '@/lib/vector-grids';
+import { useI18n } from '@/hooks/use-i18n';
+import { useOverlayState } from '@/hooks/use-layer-manager';
+import { isMapToolActive } from '@/hooks/use-map-tool';
+import type { ImportedLayer, ImportedLayerStyle } from '@/hooks/use-imported-layers';
+
+const POINT_RADIUS = 6;
+
+interface ClickedFeature {
+  latlng: LatLngLiteral;
+  properties: FeatureProperties;
+}
+
+function pathStyle({ color, weight, fillOpacity }: ImportedLayerStyle): L.PathOptions {
+  return { color, weight, opacity: 1, fillColor: color, fillOpacity };
+}
+
+// Component to draw one imported file, with a popup of the clicked feature's
+// attributes
+function ImportedOverlay({ layer }: { layer: ImportedLayer }) {
+  const map = useMap();
+  const { locale } = useI18n();
+  const { visible, opacity, zIndex } = useOverlayState(layer.id);
+  const [popup, setPopup] = useState<ClickedFeature | null>(null);
+  const paneName = overlayPaneName(layer.id);
+
+  useEffect(() => () => removeOverlayPane(map, layer.id), [map, layer.id]);
+
+  const geoJson = useMemo(
+    () =>
+      L.geoJSON(layer.data, {
+        pane: paneName,
+        pointToLayer: (_feature, latlng) =>
+          L.circleMarker(latlng, { pane: paneName, radius: POINT_RADIUS }),
+      }),
+    [layer.data, paneName]
+  );
+
+  useEffect(() => {
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      // Tools get the click through the map, where it bubbles to
+      if (isMapToolActive()) return;
+      const feature = (e.propagatedFrom as L.Layer & { feature?: Feature }).feature;
+      setPopup({ latlng: e.latlng, properties: (feature?.properties ?? {}) as FeatureProperties });
+    };
+    geoJson.on('click', handleClick);
+    return () => {
+      geoJson.off('click', handleClick);
+    };
+  }, [geoJson]);
+
+  useEffect(() => {
+    geoJson.setStyle(pathStyle(layer.style));
+  }, [geoJson, layer.style]);
+
+  useEffect(() => {
+    if (!visible) return;
+    overlayPane(map, layer.id);
+    geoJson.addTo(map);
+    return () => {
+      map.removeLayer(geoJson);
+      setPopup(null);
+    };
+  }, [geoJson, visible, map, layer.id]);
+
+  useEffect(() => {
+    stackOverlayPane(map, layer.id, zIndex, opacity);
+  }, [map, layer.id, opacity, zIndex]);
+
+  if (!popup) return null;
+
+  const attributes = describeAttributes(popup.properties, [], locale);
+  return (
+    // Keyed by position: the map closes the open popup on every click, so
+    // clicking another feature needs a new one
+    <Popup
+      key={`${popup.latlng.lat},${popup.latlng.lng}`}
+      position={popup.latlng}
+      eventHandlers={{ remove: () => setPopup(null) }}
+      maxWidth={320}
+    >
+      <div className="max-h-52 overflow-y-auto text-sm">
+        <p className="mb-1 font-medium">{layer.name}</p>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5">
+          {attributes.map((attribute) => (
+            <div key={attribute.name} className="contents">
+              <dt className="font-semibold">{attribute.label}</dt>
+              <dd>
+                <AttributeValue value={attribute.value} text={attribute.text} />
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </Popup>
+  );
+}
+
+export default ImportedOverlay;
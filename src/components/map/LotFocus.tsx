@@ -0,0 +1,79 @@
+import { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import type { VectorLayerDefinition } from '@/lib/layers';
+import { fetchLot, type LotMatch } from '@/lib/lot-lookup';
+import { findLoadedFeature, getVectorGrid } from '@/lib/vector-grids';
+import { updateOverlay } from '@/hooks/use-layer-manager';
+import { selectFeature } from '@/hooks/use-selection';
+
+// Without a lookup endpoint, a lot missing from the loaded tiles may well
+// exist further away: 'not-loaded' rather than 'not-found'
+export type LotStatus = 'searching' | 'found' | 'not-found' | 'not-loaded' | 'error';
+
+interface LotFocusProps {
+  layer: VectorLayerDefinition;
+  lotId: string;
+  // Must be stable (e.g. a state setter)
+  onStatusChange: (status: LotStatus) => void;
+}
+
+// Component to find a lot by id, fit the map to it and select it (which
+// opens it in the attribute inspector). Uses the layer's lookup endpoint
+// when configured, otherwise searches the tiles loaded around the current
+// view.
+function LotFocus({ layer, lotId, onStatusChange }: LotFocusProps) {
+  const map = useMap();
+
+  useEffect(() => {
+    let cancelled = false;
+    onStatusChange('searching');
+    updateOverlay(layer.id, { visible: true });
+
+    const focus = (match: LotMatch) => {
+      selectFeature({ layerId: layer.id, id: match.id, properties: match.properties });
+      map.fitBounds(match.bounds, { maxZoom: 19, padding: [40, 40] });
+      onStatusChange('found');
+    };
+
+    if (layer.lookup) {
+      fetchLot(layer.lookup.url, lotId)
+        .then((match) => {
+          if (cancelled) return;
+          if (match) focus(match);
+          else onStatusChange('not-found');
+        })
+        .catch(() => {
+          if (!cancelled) onStatusChange('error');
+        });
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    const scan = () => {
+      const loaded = findLoadedFeature(map, layer.id, lotId);
+      if (loaded) focus(loaded);
+      return loaded !== undefined;
+    };
+
+    // The layer may have just been switched on: give its tiles a chance to load
+    const grid = getVectorGrid(layer.id);
+    if (scan()) return;
+    if (!grid || (map.hasLayer(grid) && !grid.isLoading())) {
+      onStatusChange('not-loaded');
+      return;
+    }
+
+    const handleLoad = () => {
+      if (!scan()) onStatusChange('not-loaded');
+    };
+    grid.once('load', handleLoad);
+    return () => {
+      grid.off('load', handleLoad);
+    };
+  }, [layer, lotId, map, onStatusChange]);
+
+  return null;
+}
+
+export default LotFocus;
@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Marker, Polygon, Polyline, useMap, useMapEvents } from 'react-leaflet';
+import L, { type LatLngLiteral } from 'leaflet';
+import { formatArea, formatDistance, pathLength, ringArea, ringPerimeter } from '@/lib/geodesy';
+import type { Locale, MessageKey, MessageParams } from '@/lib/i18n';
+import { useI18n } from '@/hooks/use-i18n';
+import { useMapTool } from '@/hooks/use-map-tool';
+import {
+  addMeasurementPoint,
+  cancelMeasurement,
+  finishMeasurement,
+  moveMeasurementVertex,
+  removeLastMeasurementPoint,
+  removeMeasurement,
+  useMeasurements,
+  type Measurement,
+  type MeasurementKind,
+} from '@/hooks/use-measurements';
+
+const MEASURE_STYLE: L.PathOptions = {
+  color: '#db2777',
+  weight: 3,
+  fillColor: '#db2777',
+  fillOpacity: 0.15,
+};
+
+const DRAFT_STYLE: L.PathOptions = { ...MEASURE_STYLE, dashArray: '6 6' };
+
+const VERTEX_ICON = L.divIcon({ className: 'measure-vertex', iconSize: [12, 12] });
+
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+function measurementLabel(
+  kind: MeasurementKind,
+  points: LatLngLiteral[],
+  locale: Locale,
+  t: Translate
+) {
+  if (kind === 'distance') return [formatDistance(locale, pathLength(points))];
+  return [
+    formatArea(locale, ringArea(points)),
+    t('measure.perimeter', { value: formatDistance(locale, ringPerimeter(points)) }),
+  ];
+}
+
+// Readout pinned to the measurement; the × removes it
+function labelIcon(lines: string[], removeTitle?: string) {
+  const text = lines.map((line) => `<span>${line}</span>`).join('');
+  const button = removeTitle
+    ? `<button type="button" data-remove title="${removeTitle}" aria-label="${removeTitle}">×</button>`
+    : '';
+  return L.divIcon({
+    className: 'measure-label',
+    html: `<div><p>${text}</p>${button}</div>`,
+    iconSize: [0, 0],
+  });
+}
+
+// Distance labels sit at the end of the line, area labels in the middle
+function labelPosition(kind: MeasurementKind, points: LatLngLiteral[]) {
+  return kind === 'distance' ? points[points.length - 1] : L.latLngBounds(points).getCenter();
+}
+
+function MeasurementShape({
+  kind,
+  points,
+  style,
+}: {
+  kind: MeasurementKind;
+  points: LatLngLiteral[];
+  style: L.PathOptions;
+}) {
+  return kind === 'area' && points.length > 2 ? (
+    <Polygon positions={points} pathOptions={style} interactive={false} />
+  ) : (
+    <Polyline positions={points} pathOptions={style} interactive={false} />
+  );
+}
+
+function FinishedMeasurement({ measurement }: { measurement: Measurement }) {
+  const { locale, t } = useI18n();
+  const { id, kind, points } = measurement;
+  // Icons are rebuilt only when the text changes, not on every render
+  const label = measurementLabel(kind, points, locale, t).join('\n');
+  const removeTitle = t('measure.remove');
+  const icon = useMemo(() => labelIcon(label.split('\n'), removeTitle), [label, removeTitle]);
+
+  return (
+    <>
+      <MeasurementShape kind={kind} points={points} style={MEASURE_STYLE} />
+      {points.map((point, index) => (
+        <Marker
+          key={index}
+          position={point}
+          icon={VERTEX_ICON}
+          draggable
+          eventHandlers={{
+            drag: (e) => moveMeasurementVertex(id, index, (e.target as L.Marker).getLatLng()),
+          }}
+        />
+      ))}
+      <Marker
+        position={labelPosition(kind, points)}
+        icon={icon}
+        eventHandlers={{
+          click: (e) => {
+            if ((e.originalEvent.target as HTMLElement).closest('[data-remove]')) {
+              removeMeasurement(id);
+            }
+          },
+        }}
+      />
+    </>
+  );
+}
+
+// Component to draw and edit measurements. While a measuring tool is active,
+// clicks add vertices (feature clicks are forwarded here by the vector
+// layers), a double click or Enter finishes, Escape cancels and Backspace
+// takes the last vertex back. Finished measurements stay editable by
+// dragging their vertices.
+function MeasureLayer() {
+  const map = useMap();
+  const tool = useMapTool();
+  const { locale, t } = useI18n();
+  const { measurements, draft } = useMeasurements();
+  const [pointer, setPointer] = useState<LatLngLiteral | null>(null);
+  const kind: MeasurementKind | null =
+    tool === 'measure-distance' ? 'distance' : tool === 'measure-area' ? 'area' : null;
+
+  useMapEvents({
+    click: (e) => {
+      if (kind) addMeasurementPoint(kind, e.latlng);
+    },
+    dblclick: () => {
+      if (kind) finishMeasurement();
+    },
+    mousemove: (e) => setPointer(kind ? e.latlng : null),
+    mouseout: () => setPointer(null),
+  });
+
+  // Switching tools keeps what was drawn so far, if it is enough
+  useEffect(() => {
+    if (!kind) return;
+    map.doubleClickZoom.disable();
+    return () => {
+      map.doubleClickZoom.enable();
+      finishMeasurement();
+    };
+  }, [kind, map]);
+
+  useEffect(() => {
+    if (!kind) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+        return;
+      }
+      if (e.key === 'Enter') finishMeasurement();
+      else if (e.key === 'Escape') cancelMeasurement();
+      else if (e.key === 'Backspace') removeLastMeasurementPoint();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [kind]);
+
+  // The draft follows the pointer so its readout is live
+  const draftPoints = draft ? (pointer ? [...draft.points, pointer] : draft.points) : [];
+  const draftLabel =
+    draft && draftPoints.length > 1
+      ? measurementLabel(draft.kind, draftPoints, locale, t).join('\n')
+      : null;
+  const draftIcon = useMemo(
+    () => (draftLabel ? labelIcon(draftLabel.split('\n')) : null),
+    [draftLabel]
+  );
+
+  return (
+    <>
+      {measurements.map((measurement) => (
+        <FinishedMeasurement key={measurement.id} measurement={measurement} />
+      ))}
+      {draft && (
+        <>
+          <MeasurementShape kind={draft.kind} points={draftPoints} style={DRAFT_STYLE} />
+          {draft.points.map((point, index) => (
+            <Marker
+              key={index}
+              position={point}
+              icon={VERTEX_ICON}
+              // Clicking the first or last vertex closes the shape
+              eventHandlers={
+                index === 0 || index === draft.points.length - 1
+                  ? { click: () => finishMeasurement() }
+                  : {}
+              }
+            />
+          ))}
+          {draftIcon && (
+            <Marker
+              position={labelPosition(draft.kind, draftPoints)}
+              icon={draftIcon}
+              interactive={false}
+            />
+          )}
+        </>
+      )}
+    </>
+  );
+}
+
+export default MeasureLayer;
@@ -0,0 +1,103 @@
+import { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import { useToast } from '@/components/ui/use-toast';
+import { downloadFile, fileTimestamp } from '@/lib/download';
+import { renderMap } from '@/lib/map-capture';
+import { SCREEN_DPI, scaleDenominator, zoomForScale } from '@/lib/scale';
+import { drawPage, mmToPixels, pageLayout, setPngDpi } from '@/lib/print';
+import { useI18n } from '@/hooks/use-i18n';
+import { useLegendAt } from '@/hooks/use-legend';
+import { finishPrint, startPrint, usePrint } from '@/hooks/use-print';
+
+// Component to carry out print requests: the map is rendered at the page's
+// resolution, laid out with title, scale, legend and attribution, and
+// downloaded as PNG or PDF
+function PrintRenderer() {
+  const map = useMap();
+  const { toast } = useToast();
+  const { t, locale, formatNumber, formatDate } = useI18n();
+  const legendAt = useLegendAt();
+  const { request } = usePrint();
+
+  useEffect(() => {
+    if (!request) return;
+    startPrint();
+
+    const print = async () => {
+      const { dpi, format } = request;
+      const layout = pageLayout(request);
+      // At the chosen scale, or the screen's: the same ground in more pixels
+      // is that many zoom levels deeper
+      const zoom = request.scale
+        ? zoomForScale(request.scale, map.getCenter().lat, dpi)
+        : map.getZoom() + Math.log2(dpi / SCREEN_DPI);
+      const rendered = await renderMap(
+        map,
+        mmToPixels(layout.map.width, dpi),
+        mmToPixels(layout.map.height, dpi),
+        zoom
+      );
+      const { canvas, metersPerPixel, skippedImages } = rendered;
+      const scale = Math.round(scaleDenominator(map.getCenter().lat, rendered.zoom, dpi));
+      const page = drawPage(canvas, request, {
+        title: request.title || t('app.title'),
+        timestamp: formatDate(new Date(), { dateStyle: 'short', timeStyle: 'short' }),
+        attribution: map.attributionControl?.getContainer()?.textContent ?? '',
+        scaleText: t('print.scale', { scale: formatNumber(scale) }),
+        metersPerPixel,
+        // At the zoom of the page, which styles may depend on
+        legend: legendAt(rendered.zoom),
+        locale,
+      });
+
+      // Tiles from servers without CORS would have made the page unreadable
+      if (skippedImages > 0) {
+        toast({
+          title: t("print.basemapSkipped"),
+          description: t("print.basemapSkippedDescription")
+        });
+      }
+
+      const name = `map-${fileTimestamp()}`;
+      if (format === 'png') {
+        const png = await new Promise<Blob | null>((resolve) => page.toBlob(resolve, 'image/png'));
+        if (!png) throw new Error('The page could not be encoded');
+        downloadFile(`${name}.png`, await setPngDpi(png, dpi), 'image/png');
+        return;
+      }
+      // jsPDF is only loaded when a PDF is asked for
+      const { jsPDF } = await import('jspdf');
+      const { width, height } = layout.page;
+      const pdf = new jsPDF({
+        orientation: request.orientation,
+        unit: 'mm',
+        format: [width, height],
+      });
+      pdf.addImage(page, 'PNG', 0, 0, width, height, undefined, 'FAST');
+      downloadFile(`${name}.pdf`, pdf.output('blob'), 'application/pdf');
+    };
+
+    print()
+      .catch((error: Error) => {
+        toast({
+          title: t("print.failed"),
+          description: error.message,
+          variant: "destructive"
+        });
+      })
+      .finally(finishPrint);
+  }, [
+    request,
+    map,
+    toast,
+    t,
+    locale,
+    formatNumber,
+    formatDate,
+    legendAt,
+  ]);
+
+  return null;
+}
+
+export default PrintRenderer;
@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { useMapEvents } from 'react-leaflet';
+import { clearSelection } from '@/hooks/use-selection';
+import { isMapToolActive } from '@/hooks/use-map-tool';
+
+// Component to drop the selection when clicking empty map or pressing Escape.
+// Clicks on features are stopped by the vector grid and never get here.
+// While a map tool is active, clicks and Escape belong to the tool.
+function SelectionController() {
+  useMapEvents({
+    click: (e) => {
+      if (!e.originalEvent.shiftKey && !isMapToolActive()) clearSelection();
+    },
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isMapToolActive()) clearSelection();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return null;
+}
+
+export default SelectionController;
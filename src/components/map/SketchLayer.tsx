@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import {
+  CircleMarker,
+  Polygon,
+  Polyline,
+  Popup,
+  Tooltip,
+  useMap,
+  useMapEvents,
+} from 'react-leaflet';
+import type { LatLngLiteral, PathOptions } from 'leaflet';
+import type { Sketch } from '@/lib/sketches';
+import { setMapTool, useMapTool } from '@/hooks/use-map-tool';
+import {
+  addDraftVertex,
+  addSketchPoint,
+  cancelDraft,
+  finishDraft,
+  redoSketch,
+  removeLastDraftVertex,
+  setActiveSketch,
+  undoSketch,
+  useSketches,
+  type SketchDraft,
+} from '@/hooks/use-sketches';
+
+const DRAFT_COLOR = '#111827';
+
+function sketchStyle({ kind, color }: Sketch, active: boolean): PathOptions {
+  if (kind === 'point') {
+    return { color: '#ffffff', weight: active ? 3 : 2, fillColor: color, fillOpacity: 1 };
+  }
+  return {
+    color,
+    weight: active ? 5 : 3,
+    fillColor: color,
+    fillOpacity: kind === 'polygon' ? 0.2 : 0,
+  };
+}
+
+function SketchShape({
+  sketch,
+  active,
+  interactive,
+}: {
+  sketch: Sketch;
+  active: boolean;
+  interactive: boolean;
+}) {
+  const props = {
+    pathOptions: sketchStyle(sketch, active),
+    interactive,
+    // Clicking an annotation should not also clear the lot selection
+    bubblingMouseEvents: false,
+    eventHandlers: { click: () => setActiveSketch(sketch.id) },
+  };
+  const content = (
+    <>
+      {sketch.label && (
+        <Tooltip permanent direction="top" offset={sketch.kind === 'point' ? [0, -8] : [0, 0]}>
+          {sketch.label}
+        </Tooltip>
+      )}
+      {sketch.note && (
+        <Popup>
+          {sketch.label && <p className="mb-1 font-medium">{sketch.label}</p>}
+          <p className="whitespace-pre-wrap text-sm">{sketch.note}</p>
+        </Popup>
+      )}
+    </>
+  );
+
+  if (sketch.kind === 'point') {
+    return (
+      <CircleMarker center={sketch.points[0]} radius={7} {...props}>
+        {content}
+      </CircleMarker>
+    );
+  }
+  if (sketch.kind === 'line') {
+    return (
+      <Polyline positions={sketch.points} {...props}>
+        {content}
+      </Polyline>
+    );
+  }
+  return (
+    <Polygon positions={sketch.points} {...props}>
+      {content}
+    </Polygon>
+  );
+}
+
+function DraftShape({ draft, pointer }: { draft: SketchDraft; pointer: LatLngLiteral | null }) {
+  const points = pointer ? [...draft.points, pointer] : draft.points;
+  const style = { color: DRAFT_COLOR, weight: 2, dashArray: '6 6', fillOpacity: 0.1 };
+
+  return (
+    <>
+      {draft.kind === 'polygon' && points.length > 2 ? (
+        <Polygon positions={points} pathOptions={style} interactive={false} />
+      ) : (
+        <Polyline positions={points} pathOptions={style} interactive={false} />
+      )}
+      {draft.points.map((point, index) => (
+        <CircleMarker
+          key={index}
+          center={point}
+          radius={4}
+          pathOptions={{ color: DRAFT_COLOR, weight: 2, fillColor: '#ffffff', fillOpacity: 1 }}
+          interactive={false}
+        />
+      ))}
+    </>
+  );
+}
+
+// Component to draw the annotations and the one being sketched. With a
+// sketch tool active, a click drops a point or adds a vertex; a double click
+// or Enter finishes a line or polygon, Escape cancels it (or, with nothing
+// drawn, leaves the tool) and Backspace takes the last vertex back.
+// Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) undo and redo at any time.
+function SketchLayer() {
+  const map = useMap();
+  const tool = useMapTool();
+  const { sketches, draft, activeId } = useSketches();
+  const [pointer, setPointer] = useState<LatLngLiteral | null>(null);
+  const kind =
+    tool === 'sketch-point'
+      ? 'point'
+      : tool === 'sketch-line'
+        ? 'line'
+        : tool === 'sketch-polygon'
+          ? 'polygon'
+          : null;
+
+  useMapEvents({
+    click: (e) => {
+      if (kind === 'point') addSketchPoint(e.latlng);
+      else if (kind) addDraftVertex(kind, e.latlng);
+    },
+    dblclick: () => {
+      if (kind) finishDraft();
+    },
+    mousemove: (e) => setPointer(kind ? e.latlng : null),
+    mouseout: () => setPointer(null),
+  });
+
+  // Switching tools keeps the line or polygon drawn so far, if it is enough
+  useEffect(() => {
+    if (!kind) return;
+    map.doubleClickZoom.disable();
+    return () => {
+      map.doubleClickZoom.enable();
+      finishDraft();
+    };
+  }, [kind, map]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+        if (key === 'y' || e.shiftKey) redoSketch();
+        else if (draft) removeLastDraftVertex();
+        else undoSketch();
+      } else if (kind && draft && e.key === 'Enter') {
+        finishDraft();
+      } else if (kind && e.key === 'Escape') {
+        if (draft) cancelDraft();
+        else setMapTool(null);
+      } else if (kind && draft && e.key === 'Backspace') {
+        removeLastDraftVertex();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [kind, draft]);
+
+  return (
+    <>
+      {sketches.map((sketch) => (
+        // Leaflet reads `interactive` only when a layer is created, so
+        // switching tools recreates the shapes; while drawing, clicks on
+        // them must reach the map
+        <SketchShape
+          key={`${sketch.id}:${tool === null}`}
+          sketch={sketch}
+          active={sketch.id === activeId}
+          interactive={tool === null}
+        />
+      ))}
+      {draft && <DraftShape draft={draft} pointer={pointer} />}
+    </>
+  );
+}
+
+export default SketchLayer;
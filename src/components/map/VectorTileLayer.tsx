@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet.vectorgrid';
+import type { VectorLayerDefinition } from '@/lib/layers';
+import { overlayPane, overlayPaneName, removeOverlayPane, stackOverlayPane } from '@/lib/map-panes';
+import {
+  findLoadedFeature,
+  registerVectorGrid,
+  restyleVectorGrid,
+  type FeatureProperties,
+} from '@/lib/vector-grids';
+import { thematicPathStyle } from '@/lib/thematic';
+import { compileStyleLayer, sourceLayerStyles } from '@/lib/map-style';
+import { useOverlayState } from '@/hooks/use-layer-manager';
+import { fillSelectedProperties, selectFeature, useSelection } from '@/hooks/use-selection';
+import { openFeaturePopup } from '@/hooks/use-feature-popup';
+import { isMapToolActive } from '@/hooks/use-map-tool';
+import { useLayerStyle } from '@/hooks/use-layer-styles';
+
+type VectorFeatureEvent = L.LeafletMouseEvent & {
+  layer?: { properties?: FeatureProperties };
+};
+
+const HOVER_STYLE: L.PathOptions = {
+  color: '#1d4ed8',
+  weight: 2,
+  opacity: 1,
+  fill: true,
+  fillColor: '#3b82f6',
+  fillOpacity: 0.35,
+};
+
+// Selected features keep this style (over hover) until deselected
+const SELECTED_STYLE: L.PathOptions = {
+  color: '#f59e0b',
+  weight: 3,
+  opacity: 1,
+  fill: true,
+  fillColor: '#f59e0b',
+  fillOpacity: 0.35,
+};
+
+type FeatureStyle = (
+  properties: FeatureProperties,
+  zoom: number,
+  sourceLayer: string
+) => L.PathOptions | L.PathOptions[];
+
+// Vector tile features carry `properties`, which the geojson-vt typings omit
+function featureProperties(feature: unknown): FeatureProperties {
+  return (feature as { properties?: FeatureProperties }).properties ?? {};
+}
+
+// Feature ids are strings here; the vectorgrid typings insist on numbers
+function gridFeatureId(id: string) {
+  return id as unknown as number;
+}
+
+// Component to handle one vector tile layer from the registry. The grid is
+// only rebuilt when the definition changes; visibility, opacity and draw order
+// are applied to the existing grid.
+function VectorTileLayer({ layer }: { layer: VectorLayerDefinition }) {
+  const map = useMap();
+  const { visible, opacity, zIndex } = useOverlayState(layer.id);
+  const { selected } = useSelection();
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const appliedStyles = useRef<{ grid: L.VectorGrid; styles: Map<string, L.PathOptions> }>();
+  const thematic = useLayerStyle(layer.id);
+  // What the grid's style functions defer to, so styles change without a
+  // new grid. An empty list leaves a feature out when its tile is drawn, but
+  // is ignored when restyling (see restyleVectorGrid): only the map style,
+  // which comes with the grid, may return one.
+  const featureStyle = useRef<FeatureStyle>(() => layer.style);
+
+  // Source layer -> style function, where the registry's map style draws it
+  const mapStyles = useMemo(
+    () => sourceLayerStyles((layer.mapStyle ?? []).map(compileStyleLayer)),
+    [layer.mapStyle]
+  );
+
+  const vectorGrid = useMemo(
+    () =>
+      L.vectorGrid.protobuf(layer.url, {
+        rendererFactory: L.canvas.tile,
+        vectorTileLayerStyles: Object.fromEntries(
+          layer.sourceLayers.map((sourceLayer) => [
+            sourceLayer,
+            (properties: FeatureProperties, zoom: number) =>
+              featureStyle.current(properties, zoom, sourceLayer),
+          ])
+        ),
+        interactive: true,
+        pane: overlayPaneName(layer.id),
+        minZoom: layer.minZoom,
+        maxZoom: layer.maxZoom,
+        maxNativeZoom: layer.maxNativeZoom,
+        bounds: layer.bounds,
+        attribution: layer.attribution,
+        getFeatureId: (feature) =>
+          String(featureProperties(feature)[layer.featureIdProperty]),
+      }),
+    [layer]
+  );
+
+  useEffect(() => {
+    const featureId = (e: VectorFeatureEvent) =>
+      e.layer?.properties ? String(e.layer.properties[layer.featureIdProperty]) : null;
+
+    // The grid stops clicks on features from reaching the map; a map tool
+    // (e.g. measuring) needs them as plain map clicks instead
+    const forwardToTool = (e: L.LeafletMouseEvent) => {
+      if (isMapToolActive()) map.fire(e.type, e);
+    };
+    const handleClick = (e: VectorFeatureEvent) => {
+      if (isMapToolActive()) return forwardToTool(e);
+      const id = featureId(e);
+      if (id === null) return;
+      const feature = { layerId: layer.id, id, properties: e.layer.properties };
+      const additive = e.originalEvent.shiftKey;
+      selectFeature(feature, { additive });
+      if (!additive && layer.popup.enabled) {
+        openFeaturePopup({ layerId: layer.id, latlng: e.latlng, properties: e.layer.properties });
+      }
+    };
+    const handleMouseOver = (e: VectorFeatureEvent) => setHoveredId(featureId(e));
+    const handleMouseOut = () => setHoveredId(null);
+    // Features selected while their tiles were still loading
+    const handleLoad = () =>
+      fillSelectedProperties(layer.id, (id) => findLoadedFeature(map, layer.id, id)?.properties);
+
+    vectorGrid.on('click', handleClick);
+    vectorGrid.on('dblclick', forwardToTool);
+    vectorGrid.on('mouseover', handleMouseOver);
+    vectorGrid.on('mouseout', handleMouseOut);
+    vectorGrid.on('load', handleLoad);
+    return () => {
+      vectorGrid.off('click', handleClick);
+      vectorGrid.off('dblclick', forwardToTool);
+      vectorGrid.off('mouseover', handleMouseOver);
+      vectorGrid.off('mouseout', handleMouseOut);
+      vectorGrid.off('load', handleLoad);
+    };
+  }, [vectorGrid, layer, map]);
+
+  useEffect(() => registerVectorGrid(layer.id, vectorGrid), [vectorGrid, layer.id]);
+
+  // A thematic style colors the features over the map style, which takes
+  // the place of the registry style for the source layers it draws
+  useEffect(() => {
+    featureStyle.current = (properties, zoom, sourceLayer) => {
+      const mapStyle = mapStyles[sourceLayer];
+      const base = mapStyle ? mapStyle(properties, zoom) : layer.style;
+      if (!base) return [];
+      return thematic ? thematicPathStyle(thematic, properties, base) : base;
+    };
+    restyleVectorGrid(vectorGrid);
+  }, [vectorGrid, thematic, mapStyles, layer.style]);
+
+  // Apply hover and selection styles as a diff against what is already set.
+  // Overridden styles are kept by the grid and re-applied to reloaded tiles.
+  const selectedIds = selected
+    .filter((feature) => feature.layerId === layer.id)
+    .map((feature) => feature.id)
+    .join('\n');
+  useEffect(() => {
+    const next = new Map<string, L.PathOptions>();
+    if (hoveredId !== null) next.set(hoveredId, HOVER_STYLE);
+    for (const id of selectedIds ? selectedIds.split('\n') : []) {
+      next.set(id, SELECTED_STYLE);
+    }
+
+    const previous =
+      appliedStyles.current?.grid === vectorGrid
+        ? appliedStyles.current.styles
+        : new Map<string, L.PathOptions>();
+    for (const id of previous.keys()) {
+      if (!next.has(id)) vectorGrid.resetFeatureStyle(gridFeatureId(id));
+    }
+    for (const [id, style] of next) {
+      if (previous.get(id) !== style) vectorGrid.setFeatureStyle(gridFeatureId(id), style);
+    }
+    appliedStyles.current = { grid: vectorGrid, styles: next };
+  }, [vectorGrid, hoveredId, selectedIds]);
+
+  useEffect(() => {
+    if (!visible) return;
+    overlayPane(map, layer.id);
+    vectorGrid.addTo(map);
+    return () => {
+      map.removeLayer(vectorGrid);
+    };
+  }, [vectorGrid, visible, map, layer.id]);
+
+  useEffect(() => {
+    vectorGrid.setOpacity(opacity);
+  }, [vectorGrid, opacity]);
+
+  // In a pane of its own, stacked with the imported layers
+  useEffect(() => {
+    stackOverlayPane(map, layer.id, zIndex);
+  }, [map, layer.id, zIndex]);
+
+  useEffect(() => () => removeOverlayPane(map, layer.id), [map, layer.id]);
+
+  return null;
+}
+
+export default VectorTileLayer;
@@ -0,0 +1,212 @@
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Copy, Pin, PinOff, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import AttributeValue from '@/components/AttributeValue';
+import { cn } from '@/lib/utils';
+import { propertiesToCsv, propertiesToJson, stringifyValue } from '@/lib/attributes';
+import { describeAttributes } from '@/lib/fields';
+import { useLayerRegistry } from '@/hooks/use-layer-registry';
+import { deselectFeature, selectFeature, useSelection } from '@/hooks/use-selection';
+import { usePinnedFields } from '@/hooks/use-pinned-fields';
+import { useCopyToClipboard } from '@/hooks/use-copy-to-clipboard';
+import { useI18n } from '@/hooks/use-i18n';
+
+// Docked panel listing the attributes of the current selected feature
+const AttributeInspector = () => {
+  const { data: registry } = useLayerRegistry();
+  const { selected, current } = useSelection();
+  const { pinned, togglePinned } = usePinnedFields(current?.layerId ?? '');
+  const copy = useCopyToClipboard();
+  const { locale, t } = useI18n();
+  const [search, setSearch] = useState('');
+
+  const layer = registry?.layers.find((candidate) => candidate.id === current?.layerId);
+  const properties = current?.properties;
+
+  const rows = useMemo(() => {
+    if (!properties) return [];
+    const query = search.trim().toLowerCase();
+    return describeAttributes(properties, layer?.dictionary ?? [], locale)
+      .filter(
+        (attribute) =>
+          !query ||
+          attribute.name.toLowerCase().includes(query) ||
+          attribute.label.toLowerCase().includes(query) ||
+          attribute.text.toLowerCase().includes(query)
+      )
+      .sort((a, b) => {
+        const pinA = pinned.indexOf(a.name);
+        const pinB = pinned.indexOf(b.name);
+        if (pinA === -1 && pinB === -1) return 0;
+        if (pinA === -1) return 1;
+        if (pinB === -1) return -1;
+        return pinA - pinB;
+      });
+  }, [properties, layer, locale, search, pinned]);
+
+  if (!current) return null;
+
+  const index = selected.indexOf(current);
+  // Re-selecting additively moves a feature to the end, making it current
+  const showFeature = (offset: number) => {
+    const target = selected[(index + offset + selected.length) % selected.length];
+    deselectFeature(target);
+    selectFeature(target, { additive: true });
+  };
+
+  return (
+    <aside className="flex w-80 shrink-0 flex-col rounded-lg bg-white shadow">
+      <div className="flex items-start justify-between gap-2 border-b p-3">
+        <div className="min-w-0">
+          <h3 className="truncate font-medium text-sm text-gray-500">
+            {layer?.name ?? current.layerId}
+          </h3>
+          <div className="flex items-center gap-1">
+            <p className="truncate text-sm font-mono">{t('inspector.id', { id: current.id })}</p>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => copy(current.id, t('inspector.featureId'))}
+              title={t('inspector.copyId')}
+            >
+              <Copy className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex items-center">
+          {selected.length > 1 && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => showFeature(-1)}
+                title={t('inspector.previous')}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-xs text-gray-500 tabular-nums">
+                {selected.length}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => showFeature(1)}
+                title={t('inspector.next')}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => deselectFeature(current)}
+            title={t('common.close')}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="p-3 pb-0">
+        <Input
+          placeholder={t('inspector.search')}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="h-8"
+        />
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        {Object.keys(properties).length === 0 ? (
+          <p className="p-3 text-sm text-gray-500">
+            {t('inspector.pending')}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-8 px-3">{t('inspector.attribute')}</TableHead>
+                <TableHead className="h-8 px-3">{t('inspector.value')}</TableHead>
+                <TableHead className="h-8 w-16 px-1" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ name, label, value, text }) => {
+                const isPinned = pinned.includes(name);
+                return (
+                  <TableRow key={name} className={cn('group', isPinned && 'bg-amber-50')}>
+                    <TableCell
+                      className="px-3 py-1.5 align-top font-medium break-all"
+                      title={name}
+                    >
+                      {label}
+                    </TableCell>
+                    <TableCell className="px-3 py-1.5 align-top select-text">
+                      <AttributeValue value={value} text={text} />
+                    </TableCell>
+                    <TableCell className="px-1 py-1 align-top">
+                      <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => togglePinned(name)}
+                          title={isPinned ? t('inspector.unpin') : t('inspector.pin')}
+                        >
+                          {isPinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => copy(stringifyValue(value), label)}
+                          title={t('inspector.copyValue')}
+                        >
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </ScrollArea>
+
+      <div className="flex justify-end gap-2 border-t p-3">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => copy(propertiesToJson(properties), t('inspector.attributesJson'))}
+        >
+          {t('inspector.copyJson')}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => copy(propertiesToCsv([properties]), t('inspector.attributesCsv'))}
+        >
+          {t('inspector.copyCsv')}
+        </Button>
+      </div>
+    </aside>
+  );
+};
+
+export default AttributeInspector;
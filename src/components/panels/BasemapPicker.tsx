@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { isValidXyzTemplate } from '@/lib/basemaps';
+import { useBasemaps } from '@/hooks/use-basemaps';
+import { useI18n } from '@/hooks/use-i18n';
+
+const emptyForm = {
+  name: '',
+  url: '',
+  attribution: '',
+  subdomains: '',
+  maxNativeZoom: '',
+  cors: false,
+};
+
+function CustomBasemapForm({ onDone }: { onDone: () => void }) {
+  const { toast } = useToast();
+  const { addCustomBasemap } = useBasemaps();
+  const { t } = useI18n();
+  const [form, setForm] = useState(emptyForm);
+
+  const update = (field: Exclude<keyof typeof emptyForm, 'cors'>) =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidXyzTemplate(form.url)) {
+      toast({
+        title: t("basemap.invalidUrl"),
+        description: t("basemap.invalidUrlDescription"),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const maxNativeZoom = parseInt(form.maxNativeZoom, 10);
+    addCustomBasemap({
+      name: form.name.trim() || form.url.trim(),
+      url: form.url.trim(),
+      attribution: form.attribution.trim(),
+      subdomains: form.subdomains.trim() || undefined,
+      maxNativeZoom: isNaN(maxNativeZoom) ? undefined : maxNativeZoom,
+      maxZoom: 22,
+      grayscale: false,
+      cors: form.cors,
+    });
+    setForm(emptyForm);
+    onDone();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+      <div className="flex flex-col gap-1">
+        <Label htmlFor="basemap-name">{t('basemap.name')}</Label>
+        <Input id="basemap-name" value={form.name} onChange={update('name')} />
+      </div>
+      <div className="flex flex-col gap-1">
+        <Label htmlFor="basemap-url">{t('basemap.template')}</Label>
+        <Input
+          id="basemap-url"
+          placeholder="https://{s}.example.com/{z}/{x}/{y}.png"
+          value={form.url}
+          onChange={update('url')}
+          required
+        />
+      </div>
+      <div className="flex flex-col gap-1">
+        <Label htmlFor="basemap-attribution">{t('basemap.attribution')}</Label>
+        <Input
+          id="basemap-attribution"
+          value={form.attribution}
+          onChange={update('attribution')}
+        />
+      </div>
+      <div className="flex gap-2">
+        <div className="flex flex-1 flex-col gap-1">
+          <Label htmlFor="basemap-subdomains">{t('basemap.subdomains')}</Label>
+          <Input
+            id="basemap-subdomains"
+            placeholder="abc"
+            value={form.subdomains}
+            onChange={update('subdomains')}
+          />
+        </div>
+        <div className="flex w-24 flex-col gap-1">
+          <Label htmlFor="basemap-max-native-zoom">{t('basemap.maxZoom')}</Label>
+          <Input
+            id="basemap-max-native-zoom"
+            type="number"
+            min={0}
+            max={22}
+            value={form.maxNativeZoom}
+            onChange={update('maxNativeZoom')}
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="basemap-cors" className="font-normal">
+          {t('basemap.cors')}
+        </Label>
+        <Switch
+          id="basemap-cors"
+          checked={form.cors}
+          onCheckedChange={(cors) => setForm((prev) => ({ ...prev, cors }))}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onDone}>
+          {t('common.cancel')}
+        </Button>
+        <Button type="submit" size="sm">
+          {t('common.add')}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+const BasemapPicker = () => {
+  const { basemaps, active, selectBasemap, removeCustomBasemap } = useBasemaps();
+  const { t } = useI18n();
+  const [adding, setAdding] = useState(false);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex gap-1">
+        <Select value={active.id} onValueChange={selectBasemap}>
+          <SelectTrigger aria-label={t('layers.basemap')} className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {basemaps.map((basemap) => (
+              <SelectItem key={basemap.id} value={basemap.id}>
+                {basemap.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {active.custom && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={() => removeCustomBasemap(active.id)}
+            title={t('basemap.remove')}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={() => setAdding((prev) => !prev)}
+          title={t('basemap.add')}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      {adding && <CustomBasemapForm onDone={() => setAdding(false)} />}
+    </div>
+  );
+};
+
+export default BasemapPicker;
@@ -0,0 +1,219 @@
+import { useRef, useState } from 'react';
+import { Download, Home, MoreHorizontal, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  BookmarkImportError,
+  parseBookmarkFile,
+  serializeBookmarks,
+  type Bookmark,
+} from '@/lib/bookmarks';
+import { downloadFile, fileTimestamp } from '@/lib/download';
+import type { MessageKey } from '@/lib/i18n';
+import { useBookmarks } from '@/hooks/use-bookmarks';
+import { useI18n } from '@/hooks/use-i18n';
+
+function BookmarkNameForm({
+  initial = '',
+  placeholder,
+  onSubmit,
+  onCancel,
+}: {
+  initial?: string;
+  placeholder?: string;
+  onSubmit: (name: string) => void;
+  onCancel?: () => void;
+}) {
+  const [name, setName] = useState(initial);
+
+  return (
+    <form
+      className="flex gap-1"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        onSubmit(name.trim());
+        setName('');
+      }}
+    >
+      <SidebarInput
+        value={name}
+        placeholder={placeholder}
+        autoFocus={initial !== ''}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onCancel?.();
+        }}
+        onBlur={onCancel}
+      />
+      {!onCancel && (
+        <Button type="submit" variant="ghost" size="icon" className="h-8 w-8 shrink-0">
+          <Plus className="h-4 w-4" />
+        </Button>
+      )}
+    </form>
+  );
+}
+
+// Sidebar section to save the current view under a name and come back to it
+const BookmarksPanel = () => {
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const {
+    bookmarks,
+    home,
+    addBookmark,
+    renameBookmark,
+    deleteBookmark,
+    setHomeBookmark,
+    importBookmarks,
+    applyBookmark,
+  } = useBookmarks();
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (file: File) => {
+    try {
+      const count = importBookmarks(parseBookmarkFile(await file.text()));
+      toast({
+        title: t("bookmarks.imported"),
+        description: t("bookmarks.importedDescription", { count }),
+      });
+    } catch (error) {
+      // Unexpected failures are reported too, with their own message
+      toast({
+        title: t("bookmarks.importFailed"),
+        description:
+          error instanceof BookmarkImportError
+            ? t(`bookmarks.error.${error.code}` as MessageKey)
+            : t("import.error.unexpected", { message: (error as Error).message }),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(
+      `bookmarks-${fileTimestamp()}.json`,
+      serializeBookmarks(bookmarks),
+      'application/json'
+    );
+  };
+
+  const renderItem = (bookmark: Bookmark) => {
+    if (renamingId === bookmark.id) {
+      return (
+        <SidebarMenuItem key={bookmark.id}>
+          <BookmarkNameForm
+            initial={bookmark.name}
+            onSubmit={(name) => {
+              renameBookmark(bookmark.id, name);
+              setRenamingId(null);
+            }}
+            onCancel={() => setRenamingId(null)}
+          />
+        </SidebarMenuItem>
+      );
+    }
+
+    const isHome = home?.id === bookmark.id;
+    return (
+      <SidebarMenuItem key={bookmark.id}>
+        <SidebarMenuButton onClick={() => applyBookmark(bookmark)} title={t('bookmarks.go')}>
+          {isHome && <Home className="text-map-primary" aria-label={t('bookmarks.home')} />}
+          <span>{bookmark.name}</span>
+        </SidebarMenuButton>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuAction showOnHover title={t('bookmarks.actions')}>
+              <MoreHorizontal />
+            </SidebarMenuAction>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="right" align="start">
+            <DropdownMenuItem onSelect={() => setRenamingId(bookmark.id)}>
+              <Pencil className="mr-2 h-4 w-4" />
+              {t('bookmarks.rename')}
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => setHomeBookmark(isHome ? null : bookmark.id)}>
+              <Home className="mr-2 h-4 w-4" />
+              {isHome ? t('bookmarks.unsetHome') : t('bookmarks.setHome')}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              className="text-red-600 focus:text-red-600"
+              onSelect={() => deleteBookmark(bookmark.id)}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              {t('bookmarks.delete')}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </SidebarMenuItem>
+    );
+  };
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>{t('bookmarks.title')}</SidebarGroupLabel>
+      <SidebarGroupContent className="flex flex-col gap-2">
+        <BookmarkNameForm placeholder={t('bookmarks.namePlaceholder')} onSubmit={addBookmark} />
+        {bookmarks.length === 0 ? (
+          <p className="px-2 text-xs text-muted-foreground">{t('bookmarks.empty')}</p>
+        ) : (
+          <SidebarMenu>{bookmarks.map(renderItem)}</SidebarMenu>
+        )}
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 flex-1"
+            onClick={handleExport}
+            disabled={bookmarks.length === 0}
+          >
+            <Download className="mr-1 h-3 w-3" />
+            {t('bookmarks.export')}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 flex-1"
+            onClick={() => fileInput.current?.click()}
+          >
+            <Upload className="mr-1 h-3 w-3" />
+            {t('bookmarks.import')}
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+};
+
+export default BookmarksPanel;
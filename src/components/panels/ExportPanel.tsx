@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+} from '@/components/ui/sidebar';
+import {
+  EXPORT_CRS,
+  EXPORT_FORMATS,
+  supportsCrs,
+  type ExportCrs,
+  type ExportFormat,
+} from '@/lib/feature-export';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSelection } from '@/hooks/use-selection';
+import { useFeatureExport, type ExportScope } from '@/hooks/use-feature-export';
+
+// Sidebar section to download the selected features, or the lots in view,
+// as GeoJSON, CSV, KML or WKT
+const ExportPanel = () => {
+  const { t } = useI18n();
+  const { selected } = useSelection();
+  const exportFeatures = useFeatureExport();
+  const [scope, setScope] = useState<ExportScope>('selection');
+  const [format, setFormat] = useState<ExportFormat>('geojson');
+  const [crs, setCrs] = useState<ExportCrs>('wgs84');
+
+  // Follow the selection while the user has not chosen otherwise
+  const activeScope = selected.length === 0 ? 'viewport' : scope;
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>{t('export.title')}</SidebarGroupLabel>
+      <SidebarGroupContent className="flex flex-col gap-2 px-2">
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="export-scope">{t('export.scope')}</Label>
+          <Select value={activeScope} onValueChange={(value) => setScope(value as ExportScope)}>
+            <SelectTrigger id="export-scope" className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="selection" disabled={selected.length === 0}>
+                {t('export.scope.selection', { count: selected.length })}
+              </SelectItem>
+              <SelectItem value="viewport">{t('export.scope.viewport')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <div className="flex flex-1 flex-col gap-1">
+            <Label htmlFor="export-format">{t('export.format')}</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger id="export-format" className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMATS.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {t(`export.format.${item}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-1 flex-col gap-1">
+            <Label htmlFor="export-crs">{t('export.crs')}</Label>
+            <Select
+              value={supportsCrs(format) ? crs : 'wgs84'}
+              onValueChange={(value) => setCrs(value as ExportCrs)}
+              disabled={!supportsCrs(format)}
+            >
+              <SelectTrigger id="export-crs" className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_CRS.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {t(`export.crs.${item}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => exportFeatures(activeScope, format, supportsCrs(format) ? crs : 'wgs84')}
+        >
+          <Download className="mr-1 h-4 w-4" />
+          {t('export.download')}
+        </Button>
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+};
+
+export default ExportPanel;
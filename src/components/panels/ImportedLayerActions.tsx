@@ -0,0 +1,86 @@
+import { Maximize2, Palette, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { useI18n } from '@/hooks/use-i18n';
+import { fitMapBounds } from '@/hooks/use-map-view';
+import {
+  removeImportedLayer,
+  updateImportedLayerStyle,
+  type ImportedLayer,
+} from '@/hooks/use-imported-layers';
+
+// Zoom to, restyle and remove buttons of an imported layer's row
+const ImportedLayerActions = ({ layer }: { layer: ImportedLayer }) => {
+  const { t } = useI18n();
+  const { id, style, bounds } = layer;
+
+  return (
+    <div className="flex shrink-0">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => bounds && fitMapBounds(bounds)}
+        disabled={!bounds}
+        title={t('layers.zoomTo')}
+      >
+        <Maximize2 className="h-3 w-3" />
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-6 w-6" title={t('layers.style')}>
+            <Palette className="h-3 w-3" style={{ color: style.color }} />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent side="right" align="start" className="flex w-56 flex-col gap-3">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor={`${id}-color`}>{t('layers.color')}</Label>
+            <Input
+              id={`${id}-color`}
+              type="color"
+              className="h-8 w-12 p-1"
+              value={style.color}
+              onChange={(e) => updateImportedLayerStyle(id, { color: e.target.value })}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label>{t('layers.weight')}</Label>
+            <Slider
+              aria-label={t('layers.weight')}
+              min={0}
+              max={8}
+              step={0.5}
+              value={[style.weight]}
+              onValueChange={([weight]) => updateImportedLayerStyle(id, { weight })}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label>{t('layers.fillOpacity')}</Label>
+            <Slider
+              aria-label={t('layers.fillOpacity')}
+              min={0}
+              max={100}
+              step={5}
+              value={[Math.round(style.fillOpacity * 100)]}
+              onValueChange={([value]) => updateImportedLayerStyle(id, { fillOpacity: value / 100 })}
+            />
+          </div>
+        </PopoverContent>
+      </Popover>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => removeImportedLayer(id)}
+        title={t('layers.remove')}
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+};
+
+export default ImportedLayerActions;
@@ -0,0 +1,177 @@
+import { useRef, useState, type ReactNode } from 'react';
+import { FileUp, GripVertical } from 'lucide-react';
+import {
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+} from '@/components/ui/sidebar';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { useLayerRegistry } from '@/hooks/use-layer-registry';
+import { useLayerManager, type LayerDisplayState } from '@/hooks/use-layer-manager';
+import { useBasemaps } from '@/hooks/use-basemaps';
+import { useI18n } from '@/hooks/use-i18n';
+import { useImportedLayers } from '@/hooks/use-imported-layers';
+import { useFileImport } from '@/hooks/use-file-import';
+import { IMPORT_ACCEPT } from '@/lib/imports';
+import BasemapPicker from '@/components/panels/BasemapPicker';
+import ImportedLayerActions from '@/components/panels/ImportedLayerActions';
+import LayerStyleDialog from '@/components/panels/LayerStyleDialog';
+
+interface LayerRowProps {
+  id: string;
+  name: string;
+  display: LayerDisplayState;
+  onChange: (patch: Partial<LayerDisplayState>) => void;
+  actions?: ReactNode;
+}
+
+function LayerRow({ id, name, display, onChange, actions }: LayerRowProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-1 flex-col gap-2 min-w-0">
+      <div className="flex items-center justify-between gap-2">
+        <label htmlFor={`layer-${id}`} className="flex-1 truncate text-sm">
+          {name}
+        </label>
+        {actions}
+        <Switch
+          id={`layer-${id}`}
+          checked={display.visible}
+          onCheckedChange={(visible) => onChange({ visible })}
+        />
+      </div>
+      <Slider
+        aria-label={t('layers.opacity', { name })}
+        min={0}
+        max={100}
+        step={5}
+        value={[Math.round(display.opacity * 100)]}
+        onValueChange={([value]) => onChange({ opacity: value / 100 })}
+        disabled={!display.visible}
+      />
+    </div>
+  );
+}
+
+const LayerManagerPanel = () => {
+  const { data: registry } = useLayerRegistry();
+  const { order, overlays, basemap, updateOverlay, updateBasemap, moveOverlay } =
+    useLayerManager();
+  const { active } = useBasemaps();
+  const importedLayers = useImportedLayers();
+  const importFiles = useFileImport();
+  const { t } = useI18n();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const names = Object.fromEntries(
+    [...(registry?.layers ?? []), ...importedLayers].map((layer) => [layer.id, layer.name])
+  );
+  const imported = Object.fromEntries(importedLayers.map((layer) => [layer.id, layer]));
+  const vectorLayers = Object.fromEntries(
+    (registry?.layers ?? []).map((layer) => [layer.id, layer])
+  );
+
+  const handleDrop = () => {
+    if (draggedId !== null && dropIndex !== null) {
+      moveOverlay(draggedId, dropIndex);
+    }
+    setDraggedId(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <>
+      <SidebarGroup>
+        <SidebarGroupLabel>{t('layers.overlays')}</SidebarGroupLabel>
+        <SidebarGroupAction title={t('layers.import')} onClick={() => fileInput.current?.click()}>
+          <FileUp />
+        </SidebarGroupAction>
+        <input
+          ref={fileInput}
+          type="file"
+          multiple
+          accept={IMPORT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) importFiles(Array.from(e.target.files));
+            e.target.value = '';
+          }}
+        />
+        <SidebarGroupContent>
+          <ul className="flex flex-col gap-1">
+            {order.map((id, index) => (
+              <li
+                key={id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDraggedId(id);
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropIndex(index);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop();
+                }}
+                onDragEnd={() => {
+                  setDraggedId(null);
+                  setDropIndex(null);
+                }}
+                className={cn(
+                  'flex items-start gap-2 rounded-md border border-transparent p-2',
+                  draggedId === id && 'opacity-50',
+                  dropIndex === index && draggedId !== id && 'border-sidebar-ring'
+                )}
+              >
+                <GripVertical
+                  className="mt-0.5 h-4 w-4 shrink-0 cursor-grab text-muted-foreground"
+                  aria-hidden
+                />
+                <LayerRow
+                  id={id}
+                  name={names[id] ?? id}
+                  display={overlays[id]}
+                  onChange={(patch) => updateOverlay(id, patch)}
+                  actions={
+                    imported[id] ? (
+                      <ImportedLayerActions layer={imported[id]} />
+                    ) : (
+                      vectorLayers[id] && <LayerStyleDialog layer={vectorLayers[id]} />
+                    )
+                  }
+                />
+              </li>
+            ))}
+          </ul>
+        </SidebarGroupContent>
+      </SidebarGroup>
+
+      <SidebarGroup>
+        <SidebarGroupLabel>{t('layers.basemap')}</SidebarGroupLabel>
+        <SidebarGroupContent className="flex flex-col gap-3 p-2">
+          <BasemapPicker />
+          {active.url !== null && (
+            <div className="flex pl-6">
+              <LayerRow
+                id="basemap"
+                name={active.name}
+                display={basemap}
+                onChange={updateBasemap}
+              />
+            </div>
+          )}
+        </SidebarGroupContent>
+      </SidebarGroup>
+    </>
+  );
+};
+
+export default LayerManagerPanel;
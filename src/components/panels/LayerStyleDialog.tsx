@@ -0,0 +1,444 @@
+import { useMemo, useState } from 'react';
+import { Palette, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { VectorLayerDefinition } from '@/lib/layers';
+import {
+  CATEGORY_PALETTES,
+  CLASSIFICATION_METHODS,
+  MAX_CLASSES,
+  MIN_CLASSES,
+  NO_DATA_COLOR,
+  OTHER_COLOR,
+  PALETTES,
+  RAMP_PALETTES,
+  categoryColors,
+  classBreaks,
+  numericValues,
+  rampColors,
+  thematicClass,
+  topCategories,
+  type CategoricalStyle,
+  type ClassificationMethod,
+  type GraduatedStyle,
+  type PaletteName,
+  type ThematicStyle,
+} from '@/lib/thematic';
+import { getLoadedProperties, type FeatureProperties } from '@/lib/vector-grids';
+import { useI18n } from '@/hooks/use-i18n';
+import { setLayerStyle, useLayerStyle } from '@/hooks/use-layer-styles';
+
+type StyleMode = 'simple' | ThematicStyle['type'];
+const STYLE_MODES: StyleMode[] = ['simple', 'categorical', 'graduated'];
+
+const DEFAULT_CLASSES = 5;
+
+function categorical(rows: FeatureProperties[], field: string, palette: string): CategoricalStyle {
+  const values = topCategories(rows, field);
+  const colors = categoryColors(palette, values.length);
+  return {
+    type: 'categorical',
+    field,
+    palette,
+    categories: values.map((value, index) => ({ value, color: colors[index] })),
+    otherColor: OTHER_COLOR,
+  };
+}
+
+function graduated(
+  rows: FeatureProperties[],
+  field: string,
+  palette: string,
+  method: ClassificationMethod,
+  count: number,
+  manual: number[]
+): GraduatedStyle | null {
+  const breaks = classBreaks(numericValues(rows, field), method, count, manual);
+  // No loaded feature has a value to classify
+  if (breaks.length < 2) return null;
+  return {
+    type: 'graduated',
+    field,
+    palette,
+    method,
+    breaks,
+    colors: rampColors(palette, breaks.length - 1),
+  };
+}
+
+// "100; 250,5; 500": semicolons or spaces between values, decimal comma or point
+function parseBreaks(text: string): number[] {
+  return text
+    .split(/[;\s]+/)
+    .filter(Boolean)
+    .map((part) => Number(part.replace(',', '.')))
+    .filter((value) => Number.isFinite(value));
+}
+
+function PaletteSwatch({ palette }: { palette: PaletteName }) {
+  return (
+    <span className="flex h-3 w-16 overflow-hidden rounded-sm">
+      {PALETTES[palette].map((color) => (
+        <span key={color} className="flex-1" style={{ backgroundColor: color }} />
+      ))}
+    </span>
+  );
+}
+
+// Layer manager action to color a layer's features by one of their attributes,
+// with categories or graduated classes computed from the features in view
+const LayerStyleDialog = ({ layer }: { layer: VectorLayerDefinition }) => {
+  const { t, formatNumber } = useI18n();
+  const style = useLayerStyle(layer.id);
+  const [rows, setRows] = useState<FeatureProperties[]>([]);
+  const [classCount, setClassCount] = useState(
+    style?.type === 'graduated' ? Math.max(style.breaks.length - 1, MIN_CLASSES) : DEFAULT_CLASSES
+  );
+  const [manualText, setManualText] = useState(
+    style?.type === 'graduated' ? style.breaks.slice(1, -1).join('; ') : ''
+  );
+
+  const hidden = useMemo(
+    () => new Set(layer.dictionary.filter((field) => field.hidden).map((field) => field.name)),
+    [layer.dictionary]
+  );
+  const definitions = useMemo(
+    () => Object.fromEntries(layer.dictionary.map((field) => [field.name, field])),
+    [layer.dictionary]
+  );
+  const labels = useMemo(
+    () => Object.fromEntries(layer.dictionary.map((field) => [field.name, field.label ?? field.name])),
+    [layer.dictionary]
+  );
+  const fields = useMemo(() => {
+    const names = new Set<string>();
+    rows.forEach((row) => Object.keys(row).forEach((name) => names.add(name)));
+    return [...names].filter((name) => !hidden.has(name));
+  }, [rows, hidden]);
+  const numericFields = useMemo(
+    () => fields.filter((field) => numericValues(rows, field).length > 0),
+    [fields, rows]
+  );
+
+  const mode: StyleMode = style?.type ?? 'simple';
+  const refresh = () => setRows(getLoadedProperties(layer.id));
+
+  // Rebuild the style from the loaded features with some settings changed
+  const rebuild = (
+    next: StyleMode,
+    patch: { field?: string; palette?: string; method?: ClassificationMethod; count?: number; manual?: number[] } = {},
+    source = rows
+  ) => {
+    if (next === 'simple') {
+      setLayerStyle(layer.id, null);
+      return;
+    }
+    const candidates = next === 'graduated' ? numericFields : fields;
+    const field =
+      patch.field ?? (style && candidates.includes(style.field) ? style.field : candidates[0]);
+    if (!field) return;
+    if (next === 'categorical') {
+      const palette =
+        patch.palette ??
+        (style?.type === 'categorical' ? style.palette : CATEGORY_PALETTES[0]);
+      setLayerStyle(layer.id, categorical(source, field, palette));
+      return;
+    }
+    const previous = style?.type === 'graduated' ? style : null;
+    const built = graduated(
+      source,
+      field,
+      patch.palette ?? previous?.palette ?? RAMP_PALETTES[0],
+      patch.method ?? previous?.method ?? 'quantile',
+      patch.count ?? classCount,
+      patch.manual ?? parseBreaks(manualText)
+    );
+    if (built) setLayerStyle(layer.id, built);
+  };
+
+  // Loaded features per class, by thematicClass index
+  const counts = useMemo(() => {
+    const result = new Map<number, number>();
+    if (!style) return result;
+    for (const row of rows) {
+      const index = thematicClass(style, row);
+      result.set(index, (result.get(index) ?? 0) + 1);
+    }
+    return result;
+  }, [style, rows]);
+
+  const formatBreak = (value: number) => formatNumber(value, { maximumFractionDigits: 2 });
+
+  const setClassColor = (index: number, color: string) => {
+    if (style?.type === 'categorical') {
+      setLayerStyle(layer.id, {
+        ...style,
+        categories: style.categories.map((category, i) =>
+          i === index ? { ...category, color } : category
+        ),
+      });
+    } else if (style?.type === 'graduated') {
+      setLayerStyle(layer.id, {
+        ...style,
+        colors: style.colors.map((current, i) => (i === index ? color : current)),
+      });
+    }
+  };
+
+  const classes =
+    style?.type === 'categorical'
+      ? style.categories.map(({ value, color }) => ({
+          label: definitions[style.field]?.codes?.[value] ?? value,
+          color,
+        }))
+      : style?.type === 'graduated'
+        ? style.colors.map((color, index) => ({
+            label: `${formatBreak(style.breaks[index])} – ${formatBreak(style.breaks[index + 1])}`,
+            color,
+          }))
+        : [];
+
+  return (
+    <Dialog onOpenChange={(open) => open && refresh()}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          title={t('style.open')}
+        >
+          <Palette className="h-3 w-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('style.title', { name: layer.name })}</DialogTitle>
+          <DialogDescription>{t('style.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="style-mode">{t('style.mode')}</Label>
+              <Select value={mode} onValueChange={(value) => rebuild(value as StyleMode)}>
+                <SelectTrigger id="style-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STYLE_MODES.map((item) => (
+                    <SelectItem
+                      key={item}
+                      value={item}
+                      disabled={
+                        (item === 'categorical' && fields.length === 0) ||
+                        (item === 'graduated' && numericFields.length === 0)
+                      }
+                    >
+                      {t(`style.mode.${item}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {style && (
+              <div className="flex flex-col gap-1">
+                <Label htmlFor="style-field">{t('style.field')}</Label>
+                <Select
+                  value={style.field}
+                  onValueChange={(field) => rebuild(style.type, { field })}
+                >
+                  <SelectTrigger id="style-field">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(style.type === 'graduated' ? numericFields : fields)
+                      .concat(
+                        fields.includes(style.field) ? [] : [style.field]
+                      )
+                      .map((field) => (
+                        <SelectItem key={field} value={field}>
+                          {labels[field] ?? field}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {style && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="flex flex-col gap-1">
+                <Label htmlFor="style-palette">{t('style.palette')}</Label>
+                <Select
+                  value={style.palette}
+                  onValueChange={(palette) => rebuild(style.type, { palette })}
+                >
+                  <SelectTrigger id="style-palette">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(style.type === 'graduated' ? RAMP_PALETTES : CATEGORY_PALETTES).map(
+                      (palette) => (
+                        <SelectItem key={palette} value={palette}>
+                          <PaletteSwatch palette={palette} />
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              {style.type === 'graduated' && (
+                <div className="flex flex-col gap-1">
+                  <Label htmlFor="style-method">{t('style.method')}</Label>
+                  <Select
+                    value={style.method}
+                    onValueChange={(method) =>
+                      rebuild('graduated', { method: method as ClassificationMethod })
+                    }
+                  >
+                    <SelectTrigger id="style-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CLASSIFICATION_METHODS.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {t(`style.method.${method}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {style?.type === 'graduated' &&
+            (style.method === 'manual' ? (
+              <div className="flex flex-col gap-1">
+                <Label htmlFor="style-breaks">{t('style.breaks')}</Label>
+                <Input
+                  id="style-breaks"
+                  value={manualText}
+                  placeholder="100; 250; 500"
+                  onChange={(e) => {
+                    setManualText(e.target.value);
+                    rebuild('graduated', { manual: parseBreaks(e.target.value) });
+                  }}
+                />
+              </div>
+            ) : (
+              <div className="flex flex-col gap-1">
+                <Label htmlFor="style-classes">{t('style.classes')}</Label>
+                <Select
+                  value={String(classCount)}
+                  onValueChange={(value) => {
+                    setClassCount(Number(value));
+                    rebuild('graduated', { count: Number(value) });
+                  }}
+                >
+                  <SelectTrigger id="style-classes">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: MAX_CLASSES - MIN_CLASSES + 1 }, (_, i) => i + MIN_CLASSES).map(
+                      (count) => (
+                        <SelectItem key={count} value={String(count)}>
+                          {count}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+          {style && (
+            <ScrollArea className="max-h-56 rounded-md border">
+              <ul className="flex flex-col gap-1 p-2 text-sm">
+                {classes.map(({ label, color }, index) => (
+                  <li key={`${index}:${label}`} className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      value={color}
+                      aria-label={t('style.classColor', { label })}
+                      className="h-5 w-7 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+                      onChange={(e) => setClassColor(index, e.target.value)}
+                    />
+                    <span className="flex-1 truncate">{label}</span>
+                    <span className="text-xs tabular-nums text-muted-foreground">
+                      {formatNumber(counts.get(index) ?? 0)}
+                    </span>
+                  </li>
+                ))}
+                {style.type === 'categorical' && (
+                  <li className="flex items-center gap-2 text-muted-foreground">
+                    <span
+                      className="h-4 w-7 shrink-0 rounded"
+                      style={{ backgroundColor: style.otherColor }}
+                    />
+                    <span className="flex-1">{t('style.other')}</span>
+                    <span className="text-xs tabular-nums">{formatNumber(counts.get(-2) ?? 0)}</span>
+                  </li>
+                )}
+                {counts.has(-1) && (
+                  <li className="flex items-center gap-2 text-muted-foreground">
+                    <span
+                      className="h-4 w-7 shrink-0 rounded"
+                      style={{ backgroundColor: NO_DATA_COLOR }}
+                    />
+                    <span className="flex-1">{t('style.noData')}</span>
+                    <span className="text-xs tabular-nums">{formatNumber(counts.get(-1) ?? 0)}</span>
+                  </li>
+                )}
+              </ul>
+            </ScrollArea>
+          )}
+
+          {rows.length === 0 ? (
+            <p className="text-xs text-destructive">{t('style.noFeatures')}</p>
+          ) : (
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                {t('style.loaded', { count: rows.length })}
+              </p>
+              {style && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    const source = getLoadedProperties(layer.id);
+                    setRows(source);
+                    rebuild(style.type, {}, source);
+                  }}
+                >
+                  <RefreshCw className="mr-1 h-3 w-3" />
+                  {t('style.recompute')}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LayerStyleDialog;
@@ -0,0 +1,298 @@
+import { useRef } from 'react';
+import {
+  Download,
+  MapPin,
+  Pentagon,
+  Redo2,
+  Spline,
+  Trash2,
+  Undo2,
+  Upload,
+  type LucideIcon,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import { cn } from '@/lib/utils';
+import { downloadFile, fileTimestamp } from '@/lib/download';
+import type { MessageKey } from '@/lib/i18n';
+import {
+  SKETCH_COLORS,
+  SketchImportError,
+  parseSketchFile,
+  serializeSketches,
+  type Sketch,
+  type SketchKind,
+} from '@/lib/sketches';
+import { useI18n } from '@/hooks/use-i18n';
+import { fitMapBounds } from '@/hooks/use-map-view';
+import { toggleMapTool, useMapTool, type MapTool } from '@/hooks/use-map-tool';
+import {
+  clearSketches,
+  deleteSketch,
+  importSketches,
+  redoSketch,
+  setActiveSketch,
+  setSketchColor,
+  undoSketch,
+  updateSketch,
+  useSketches,
+} from '@/hooks/use-sketches';
+
+const KINDS: { kind: SketchKind; tool: MapTool; icon: LucideIcon }[] = [
+  { kind: 'point', tool: 'sketch-point', icon: MapPin },
+  { kind: 'line', tool: 'sketch-line', icon: Spline },
+  { kind: 'polygon', tool: 'sketch-polygon', icon: Pentagon },
+];
+
+const KIND_ICONS = Object.fromEntries(KINDS.map(({ kind, icon }) => [kind, icon])) as Record<
+  SketchKind,
+  LucideIcon
+>;
+
+function ColorSwatches({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (color: string) => void;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap gap-1" role="radiogroup" aria-label={t('sketch.color')}>
+      {SKETCH_COLORS.map((color) => (
+        <button
+          key={color}
+          type="button"
+          role="radio"
+          aria-checked={value === color}
+          aria-label={color}
+          title={color}
+          className={cn(
+            'h-5 w-5 rounded-full border border-white shadow-sm',
+            value === color && 'ring-2 ring-sidebar-ring ring-offset-1'
+          )}
+          style={{ backgroundColor: color }}
+          onClick={() => onChange(color)}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Label, note and color of the sketch open in the panel. Inputs are saved
+// when they lose focus, so each edit is one undo step; the key makes undo
+// and redo refresh them.
+function SketchEditor({ sketch }: { sketch: Sketch }) {
+  const { t } = useI18n();
+
+  return (
+    <div
+      key={`${sketch.label}\n${sketch.note}`}
+      className="flex flex-col gap-2 px-2 pb-2 pt-1"
+    >
+      <SidebarInput
+        defaultValue={sketch.label}
+        placeholder={t('sketch.label')}
+        aria-label={t('sketch.label')}
+        onBlur={(e) => updateSketch(sketch.id, { label: e.target.value.trim() })}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+      />
+      <Textarea
+        defaultValue={sketch.note}
+        placeholder={t('sketch.note')}
+        aria-label={t('sketch.note')}
+        className="min-h-16 bg-background text-sm"
+        onBlur={(e) => updateSketch(sketch.id, { note: e.target.value.trim() })}
+      />
+      <ColorSwatches
+        value={sketch.color}
+        onChange={(color) => updateSketch(sketch.id, { color })}
+      />
+    </div>
+  );
+}
+
+// Sidebar section to draw annotations for site visits and share them as GeoJSON
+const SketchPanel = () => {
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const activeTool = useMapTool();
+  const { sketches, color, activeId, canUndo, canRedo } = useSketches();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (file: File) => {
+    try {
+      const count = importSketches(parseSketchFile(await file.text(), color));
+      toast({
+        title: t("sketch.imported"),
+        description: t("sketch.importedDescription", { count }),
+      });
+    } catch (error) {
+      // Unexpected failures are reported too, with their own message
+      toast({
+        title: t("sketch.importFailed"),
+        description:
+          error instanceof SketchImportError
+            ? t(`sketch.error.${error.code}` as MessageKey, { number: error.feature ?? 0 })
+            : t("import.error.unexpected", { message: (error as Error).message }),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(
+      `annotations-${fileTimestamp()}.geojson`,
+      serializeSketches(sketches),
+      'application/geo+json'
+    );
+  };
+
+  const handleOpen = (sketch: Sketch) => {
+    if (activeId === sketch.id) {
+      setActiveSketch(null);
+      return;
+    }
+    setActiveSketch(sketch.id);
+    fitMapBounds(sketch.points.map(({ lat, lng }) => [lat, lng]));
+  };
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>{t('sketch.title')}</SidebarGroupLabel>
+      <SidebarGroupContent className="flex flex-col gap-2">
+        <div className="flex items-center gap-1 px-2">
+          {KINDS.map(({ kind, tool, icon: Icon }) => (
+            <Button
+              key={kind}
+              variant={activeTool === tool ? 'default' : 'ghost'}
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => toggleMapTool(tool)}
+              title={t(`sketch.draw.${kind}`)}
+              aria-pressed={activeTool === tool}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+          <div className="flex-1" />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={undoSketch}
+            disabled={!canUndo}
+            title={t('sketch.undo')}
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={redoSketch}
+            disabled={!canRedo}
+            title={t('sketch.redo')}
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="px-2">
+          <ColorSwatches value={color} onChange={setSketchColor} />
+        </div>
+
+        {sketches.length === 0 ? (
+          <p className="px-2 text-xs text-muted-foreground">{t('sketch.empty')}</p>
+        ) : (
+          <SidebarMenu>
+            {sketches.map((sketch, index) => {
+              const Icon = KIND_ICONS[sketch.kind];
+              return (
+                <SidebarMenuItem key={sketch.id}>
+                  <SidebarMenuButton
+                    isActive={activeId === sketch.id}
+                    onClick={() => handleOpen(sketch)}
+                    title={sketch.note || undefined}
+                  >
+                    <Icon style={{ color: sketch.color }} />
+                    <span>
+                      {sketch.label ||
+                        t(`sketch.untitled.${sketch.kind}`, { number: index + 1 })}
+                    </span>
+                  </SidebarMenuButton>
+                  <SidebarMenuAction
+                    showOnHover
+                    title={t('sketch.delete')}
+                    onClick={() => deleteSketch(sketch.id)}
+                  >
+                    <Trash2 />
+                  </SidebarMenuAction>
+                  {activeId === sketch.id && <SketchEditor sketch={sketch} />}
+                </SidebarMenuItem>
+              );
+            })}
+          </SidebarMenu>
+        )}
+
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 flex-1"
+            onClick={handleExport}
+            disabled={sketches.length === 0}
+          >
+            <Download className="mr-1 h-3 w-3" />
+            {t('sketch.export')}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 flex-1"
+            onClick={() => fileInput.current?.click()}
+          >
+            <Upload className="mr-1 h-3 w-3" />
+            {t('sketch.import')}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 flex-1"
+            onClick={clearSketches}
+            disabled={sketches.length === 0}
+          >
+            <Trash2 className="mr-1 h-3 w-3" />
+            {t('sketch.clear')}
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/geo+json,application/json,.geojson,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+};
+
+export default SketchPanel;
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { createStore, useStore } from '@/lib/store';
+import { readStorage, writeStorage } from '@/lib/storage';
+import {
+  basemapSchema,
+  BUILTIN_BASEMAPS,
+  DEFAULT_BASEMAP_ID,
+  type BasemapDefinition,
+} from '@/lib/basemaps';
+import type { MessageKey } from '@/lib/i18n';
+import { useI18n } from '@/hooks/use-i18n';
+
+const STORAGE_KEY = 'basemaps';
+
+const persistedSchema = z.object({
+  activeId: z.string(),
+  custom: z.array(basemapSchema),
+});
+
+type BasemapState = z.infer<typeof persistedSchema>;
+
+const basemapStore = createStore<BasemapState>(
+  readStorage(STORAGE_KEY, persistedSchema, {
+    activeId: DEFAULT_BASEMAP_ID,
+    custom: [],
+  })
+);
+
+basemapStore.subscribe(() => writeStorage(STORAGE_KEY, basemapStore.getState()));
+
+function allBasemaps(state: BasemapState): BasemapDefinition[] {
+  return [...BUILTIN_BASEMAPS, ...state.custom];
+}
+
+function selectBasemap(id: string) {
+  basemapStore.setState((prev) =>
+    allBasemaps(prev).some((basemap) => basemap.id === id)
+      ? { ...prev, activeId: id }
+      : prev
+  );
+}
+
+function addCustomBasemap(
+  basemap: Omit<BasemapDefinition, 'id' | 'custom'>
+): BasemapDefinition {
+  const created: BasemapDefinition = {
+    ...basemap,
+    id: `custom-${Date.now().toString(36)}`,
+    custom: true,
+  };
+  basemapStore.setState((prev) => ({
+    activeId: created.id,
+    custom: [...prev.custom, created],
+  }));
+  return created;
+}
+
+function removeCustomBasemap(id: string) {
+  basemapStore.setState((prev) => ({
+    activeId: prev.activeId === id ? DEFAULT_BASEMAP_ID : prev.activeId,
+    custom: prev.custom.filter((basemap) => basemap.id !== id),
+  }));
+}
+
+function useBasemaps() {
+  const state = useStore(basemapStore);
+  const { t } = useI18n();
+  // Built-in names come from the message catalogs; custom ones are the user's
+  const basemaps = allBasemaps(state).map((basemap) =>
+    basemap.custom
+      ? basemap
+      : { ...basemap, name: t(`basemaps.${basemap.id}` as MessageKey) }
+  );
+  const active =
+    basemaps.find((basemap) => basemap.id === state.activeId) ?? basemaps[0];
+
+  return {
+    basemaps,
+    active,
+    selectBasemap,
+    addCustomBasemap,
+    removeCustomBasemap,
+  };
+}
+
+export {
+  basemapStore,
+  useBasemaps,
+  selectBasemap,
+  addCustomBasemap,
+  removeCustomBasemap,
+};
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { createStore, useStore } from '@/lib/store';
+import { readStorage, writeStorage } from '@/lib/storage';
+import { bookmarkSchema, createBookmarkId, type Bookmark } from '@/lib/bookmarks';
+import { findLoadedProperties } from '@/lib/vector-grids';
+import { mapViewStore, setMapView } from '@/hooks/use-map-view';
+import { layerManagerStore, showOnlyLayers } from '@/hooks/use-layer-manager';
+import { basemapStore, selectBasemap } from '@/hooks/use-basemaps';
+import { selectionStore, setSelection } from '@/hooks/use-selection';
+
+const STORAGE_KEY = 'bookmarks';
+
+const persistedSchema = z.object({
+  bookmarks: z.array(bookmarkSchema),
+  // Bookmark used by Reset instead of the configured default view
+  homeId: z.string().nullable(),
+});
+
+interface BookmarkState {
+  bookmarks: Bookmark[];
+  homeId: string | null;
+}
+
+const bookmarkStore = createStore<BookmarkState>(
+  readStorage(STORAGE_KEY, persistedSchema, { bookmarks: [], homeId: null }) as BookmarkState
+);
+
+bookmarkStore.subscribe(() => writeStorage(STORAGE_KEY, bookmarkStore.getState()));
+
+// Snapshot of what is on screen, from the stores that hold it
+function addBookmark(name: string): Bookmark {
+  const { order, overlays } = layerManagerStore.getState();
+  const bookmark: Bookmark = {
+    id: createBookmarkId(),
+    name,
+    view: mapViewStore.getState(),
+    layers: order.filter((id) => overlays[id]?.visible),
+    basemap: basemapStore.getState().activeId,
+    selection: selectionStore.getState().selected.map(({ layerId, id }) => ({ layerId, id })),
+    createdAt: new Date().toISOString(),
+  };
+  bookmarkStore.setState((prev) => ({ ...prev, bookmarks: [...prev.bookmarks, bookmark] }));
+  return bookmark;
+}
+
+function renameBookmark(id: string, name: string) {
+  bookmarkStore.setState((prev) => ({
+    ...prev,
+    bookmarks: prev.bookmarks.map((bookmark) =>
+      bookmark.id === id ? { ...bookmark, name } : bookmark
+    ),
+  }));
+}
+
+function deleteBookmark(id: string) {
+  bookmarkStore.setState((prev) => ({
+    bookmarks: prev.bookmarks.filter((bookmark) => bookmark.id !== id),
+    homeId: prev.homeId === id ? null : prev.homeId,
+  }));
+}
+
+// Pass null to go back to the configured default view
+function setHomeBookmark(id: string | null) {
+  bookmarkStore.setState((prev) => ({ ...prev, homeId: id }));
+}
+
+// Imported bookmarks replace local ones with the same id (a colleague's
+// updated file) and are appended otherwise. Returns how many were imported.
+function importBookmarks(imported: Bookmark[]) {
+  bookmarkStore.setState((prev) => {
+    const byId = new Map(imported.map((bookmark) => [bookmark.id, bookmark]));
+    const kept = prev.bookmarks.map((bookmark) => byId.get(bookmark.id) ?? bookmark);
+    const known = new Set(prev.bookmarks.map((bookmark) => bookmark.id));
+    return {
+      ...prev,
+      bookmarks: [...kept, ...imported.filter((bookmark) => !known.has(bookmark.id))],
+    };
+  });
+  return imported.length;
+}
+
+function applyBookmark(bookmark: Bookmark) {
+  setMapView(bookmark.view);
+  showOnlyLayers(bookmark.layers);
+  if (bookmark.basemap) selectBasemap(bookmark.basemap);
+  // Attributes come from the tiles already loaded, or are filled in once the
+  // features' tiles load
+  setSelection(
+    bookmark.selection.map((ref) => ({
+      ...ref,
+      properties: findLoadedProperties(ref.layerId, ref.id) ?? {},
+    }))
+  );
+}
+
+function useBookmarks() {
+  const { bookmarks, homeId } = useStore(bookmarkStore);
+  return {
+    bookmarks,
+    home: bookmarks.find((bookmark) => bookmark.id === homeId) ?? null,
+    addBookmark,
+    renameBookmark,
+    deleteBookmark,
+    setHomeBookmark,
+    importBookmarks,
+    applyBookmark,
+  };
+}
+
+export {
+  bookmarkStore,
+  useBookmarks,
+  addBookmark,
+  renameBookmark,
+  deleteBookmark,
+  setHomeBookmark,
+  importBookmarks,
+  applyBookmark,
+};
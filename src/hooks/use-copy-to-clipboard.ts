@@ -0,0 +1,27 @@
+import { useCallback } from 'react';
+import { useToast } from '@/components/ui/use-toast';
+import { useI18n } from '@/hooks/use-i18n';
+
+export function useCopyToClipboard() {
+  const { toast } = useToast();
+  const { t } = useI18n();
+
+  return useCallback(
+    async (text: string, what: string) => {
+      try {
+        await navigator.clipboard.writeText(text);
+        toast({
+          title: t("clipboard.copied"),
+          description: t("clipboard.copiedDescription", { what }),
+        });
+      } catch {
+        toast({
+          title: t("clipboard.failed"),
+          description: t("clipboard.failedDescription"),
+          variant: "destructive"
+        });
+      }
+    },
+    [toast, t]
+  );
+}
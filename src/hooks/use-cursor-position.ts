@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { createStore, useStore } from '@/lib/store';
+import { readStorage, writeStorage } from '@/lib/storage';
+import { DISPLAY_FORMATS, type CoordinateDisplayFormat } from '@/lib/coordinates';
+
+const STORAGE_KEY = 'cursor-format';
+
+export interface CursorPosition {
+  latitude: number;
+  longitude: number;
+}
+
+interface CursorState {
+  // Last position over the map; kept when the pointer leaves it, so the
+  // readout can still be clicked to copy it
+  position: CursorPosition | null;
+  overMap: boolean;
+}
+
+const cursorStore = createStore<CursorState>({ position: null, overMap: false });
+
+const cursorFormatStore = createStore<CoordinateDisplayFormat>(
+  readStorage(STORAGE_KEY, z.enum(DISPLAY_FORMATS), 'dd')
+);
+
+cursorFormatStore.subscribe(() => writeStorage(STORAGE_KEY, cursorFormatStore.getState()));
+
+function setCursorPosition(position: CursorPosition) {
+  cursorStore.setState({ position, overMap: true });
+}
+
+function leaveMap() {
+  cursorStore.setState((prev) => (prev.overMap ? { ...prev, overMap: false } : prev));
+}
+
+function setCursorFormat(format: CoordinateDisplayFormat) {
+  cursorFormatStore.setState(format);
+}
+
+function useCursorPosition() {
+  const { position, overMap } = useStore(cursorStore);
+  const format = useStore(cursorFormatStore);
+  return { position, overMap, format, setCursorFormat };
+}
+
+export {
+  cursorStore,
+  cursorFormatStore,
+  useCursorPosition,
+  setCursorPosition,
+  leaveMap,
+  setCursorFormat,
+};
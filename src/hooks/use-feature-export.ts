@@ -0,0 +1,89 @@
+import { useCallback } from 'react';
+import { useToast } from '@/components/ui/use-toast';
+import { downloadFile, fileTimestamp } from '@/lib/download';
+import {
+  EXPORT_FILE_TYPES,
+  loadedFeatureGeometry,
+  serializeFeatures,
+  type ExportCrs,
+  type ExportFeature,
+  type ExportFormat,
+} from '@/lib/feature-export';
+import { findLoadedFeature, getLoadedFeatures, getVectorGridMap } from '@/lib/vector-grids';
+import { useI18n } from '@/hooks/use-i18n';
+import { useLayerRegistry } from '@/hooks/use-layer-registry';
+import { selectionStore } from '@/hooks/use-selection';
+
+export type ExportScope = 'selection' | 'viewport';
+
+// Geometry only exists for features in the loaded tiles; selected features
+// elsewhere are counted as missing
+function selectedFeatures() {
+  const features: ExportFeature[] = [];
+  let missing = 0;
+  for (const { layerId, id } of selectionStore.getState().selected) {
+    const map = getVectorGridMap(layerId);
+    const loaded = map && findLoadedFeature(map, layerId, id);
+    if (!loaded) {
+      missing++;
+      continue;
+    }
+    features.push({
+      layerId,
+      id,
+      properties: loaded.properties,
+      geometry: loadedFeatureGeometry(loaded),
+    });
+  }
+  return { features, missing };
+}
+
+function viewportFeatures(layerId: string | undefined) {
+  const map = layerId ? getVectorGridMap(layerId) : undefined;
+  if (!layerId || !map) return { features: [], missing: 0 };
+  const bounds = map.getBounds();
+  const features = getLoadedFeatures(map, layerId)
+    .filter((feature) => bounds.intersects(feature.bounds))
+    .map((feature) => ({
+      layerId,
+      id: feature.id,
+      properties: feature.properties,
+      geometry: loadedFeatureGeometry(feature),
+    }));
+  return { features, missing: 0 };
+}
+
+// Download the selected features, or the lots in view, in the given format
+export function useFeatureExport() {
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const { data: registry } = useLayerRegistry();
+  const lotLayer = registry?.lotLayer;
+
+  return useCallback(
+    (scope: ExportScope, format: ExportFormat, crs: ExportCrs) => {
+      const { features, missing } =
+        scope === 'selection' ? selectedFeatures() : viewportFeatures(lotLayer);
+      if (features.length === 0) {
+        toast({
+          title: t("export.failed"),
+          description: t(scope === 'selection' ? "export.empty.selection" : "export.empty.viewport"),
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const { extension, type } = EXPORT_FILE_TYPES[format];
+      downloadFile(
+        `${scope === 'selection' ? 'selection' : 'lots'}-${fileTimestamp()}.${extension}`,
+        serializeFeatures(features, format, crs),
+        type
+      );
+      toast({
+        title: t("export.done", { count: features.length }),
+        description: missing > 0 ? t("export.missing", { count: missing }) : undefined,
+      });
+    },
+    [toast, t, lotLayer]
+  );
+}
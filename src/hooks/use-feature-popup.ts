@@ -0,0 +1,25 @@
+import type { LatLngLiteral } from 'leaflet';
+import { createStore, useStore } from '@/lib/store';
+import type { FeatureProperties } from '@/lib/vector-grids';
+
+export interface FeaturePopupContent {
+  layerId: string;
+  latlng: LatLngLiteral;
+  properties: FeatureProperties;
+}
+
+const featurePopupStore = createStore<FeaturePopupContent | null>(null);
+
+function openFeaturePopup(content: FeaturePopupContent) {
+  featurePopupStore.setState(content);
+}
+
+function closeFeaturePopup() {
+  featurePopupStore.setState(null);
+}
+
+function useFeaturePopup() {
+  return useStore(featurePopupStore);
+}
+
+export { useFeaturePopup, openFeaturePopup, closeFeaturePopup };
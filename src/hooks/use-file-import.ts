@@ -0,0 +1,45 @@
+import { useCallback } from 'react';
+import type { LatLngBoundsLiteral } from 'leaflet';
+import { useToast } from '@/components/ui/use-toast';
+import { FileImportError, readImportFile } from '@/lib/imports';
+import type { MessageKey } from '@/lib/i18n';
+import { useI18n } from '@/hooks/use-i18n';
+import { addImportedLayers } from '@/hooks/use-imported-layers';
+import { fitMapBounds } from '@/hooks/use-map-view';
+
+// Import dropped or picked files as overlays and zoom to what was read.
+// Each file succeeds or fails on its own, with a toast either way.
+export function useFileImport() {
+  const { toast } = useToast();
+  const { t } = useI18n();
+
+  return useCallback(
+    async (files: Iterable<File>) => {
+      const bounds: LatLngBoundsLiteral = [];
+      for (const file of files) {
+        try {
+          const layers = addImportedLayers(await readImportFile(file));
+          layers.forEach((layer) => layer.bounds && bounds.push(...layer.bounds));
+          toast({
+            title: t("import.done", { name: file.name }),
+            description: t("import.doneDescription", {
+              count: layers.reduce((total, layer) => total + layer.data.features.length, 0),
+            }),
+          });
+        } catch (error) {
+          // Anything else is reported too, so one bad file does not stop the rest
+          toast({
+            title: t("import.failed", { name: file.name }),
+            description:
+              error instanceof FileImportError
+                ? t(`import.error.${error.code}` as MessageKey)
+                : t("import.error.unexpected", { message: (error as Error).message }),
+            variant: "destructive"
+          });
+        }
+      }
+      if (bounds.length > 0) fitMapBounds(bounds);
+    },
+    [toast, t]
+  );
+}
@@ -0,0 +1,59 @@
+import { useCallback } from 'react';
+import { z } from 'zod';
+import { createStore, useStore } from '@/lib/store';
+import { readStorage, writeStorage } from '@/lib/storage';
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  formatDate,
+  formatNumber,
+  translate,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+} from '@/lib/i18n';
+
+const STORAGE_KEY = 'locale';
+
+const localeStore = createStore<Locale>(
+  readStorage(STORAGE_KEY, z.enum(LOCALES), DEFAULT_LOCALE)
+);
+
+// Keep <html lang> in step so screen readers and the browser's own
+// formatting (e.g. number inputs) follow the chosen language
+function applyDocumentLocale() {
+  document.documentElement.lang = localeStore.getState();
+}
+
+applyDocumentLocale();
+localeStore.subscribe(() => {
+  writeStorage(STORAGE_KEY, localeStore.getState());
+  applyDocumentLocale();
+});
+
+function setLocale(locale: Locale) {
+  localeStore.setState(locale);
+}
+
+function useI18n() {
+  const locale = useStore(localeStore);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    [locale]
+  );
+  const number = useCallback(
+    (value: number, options?: Intl.NumberFormatOptions) =>
+      formatNumber(locale, value, options),
+    [locale]
+  );
+  const date = useCallback(
+    (value: Date | number, options?: Intl.DateTimeFormatOptions) =>
+      formatDate(locale, value, options),
+    [locale]
+  );
+
+  return { locale, setLocale, t, formatNumber: number, formatDate: date };
+}
+
+export { localeStore, useI18n, setLocale };
@@ -0,0 +1,67 @@
+import type { LatLngBoundsLiteral } from 'leaflet';
+import { createStore, useStore } from '@/lib/store';
+import { collectionBounds, type ImportedData } from '@/lib/imports';
+import { addOverlay, removeOverlay } from '@/hooks/use-layer-manager';
+
+export interface ImportedLayerStyle {
+  color: string;
+  weight: number;
+  fillOpacity: number;
+}
+
+export interface ImportedLayer extends ImportedData {
+  id: string;
+  style: ImportedLayerStyle;
+  bounds: LatLngBoundsLiteral | null;
+}
+
+// Colors handed out in turn, so layers imported together can be told apart
+const LAYER_COLORS = ['#e11d48', '#7c3aed', '#0d9488', '#d97706', '#4f46e5', '#65a30d'];
+
+// Imported files live for the session only: they can be far larger than
+// what localStorage holds
+const importedLayerStore = createStore<ImportedLayer[]>([]);
+
+// Overlay ids of imported layers, told apart from the registry's
+const IMPORTED_ID_PREFIX = 'import-';
+
+let imported = 0;
+
+// Add the layers read from a file, on top of the others
+function addImportedLayers(data: ImportedData[]): ImportedLayer[] {
+  const layers = data.map((item) => ({
+    ...item,
+    id: `${IMPORTED_ID_PREFIX}${Date.now().toString(36)}-${imported}`,
+    style: { color: LAYER_COLORS[imported++ % LAYER_COLORS.length], weight: 2, fillOpacity: 0.2 },
+    bounds: collectionBounds(item.data),
+  }));
+  importedLayerStore.setState((prev) => [...prev, ...layers]);
+  layers.forEach((layer) => addOverlay(layer.id));
+  return layers;
+}
+
+function updateImportedLayerStyle(id: string, patch: Partial<ImportedLayerStyle>) {
+  importedLayerStore.setState((prev) =>
+    prev.map((layer) =>
+      layer.id === id ? { ...layer, style: { ...layer.style, ...patch } } : layer
+    )
+  );
+}
+
+function removeImportedLayer(id: string) {
+  importedLayerStore.setState((prev) => prev.filter((layer) => layer.id !== id));
+  removeOverlay(id);
+}
+
+function useImportedLayers() {
+  return useStore(importedLayerStore);
+}
+
+export {
+  IMPORTED_ID_PREFIX,
+  importedLayerStore,
+  useImportedLayers,
+  addImportedLayers,
+  updateImportedLayerStyle,
+  removeImportedLayer,
+};
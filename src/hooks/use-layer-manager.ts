@@ -0,0 +1,151 @@
+import { createStore, useStore } from '@/lib/store';
+import type { VectorLayerDefinition } from '@/lib/layers';
+
+export interface LayerDisplayState {
+  visible: boolean;
+  opacity: number;
+}
+
+interface LayerManagerState {
+  // Overlay ids, topmost first
+  order: string[];
+  overlays: Record<string, LayerDisplayState>;
+  basemap: LayerDisplayState;
+}
+
+// z-index of the lowest overlay, among the overlay panes (see map-panes)
+const OVERLAY_BASE_Z_INDEX = 10;
+
+const layerManagerStore = createStore<LayerManagerState>({
+  order: [],
+  overlays: {},
+  basemap: { visible: true, opacity: 1 },
+});
+
+// Register layers from the registry, keeping the state of layers the user
+// already touched and appending new ones below them.
+function registerLayers(layers: Pick<VectorLayerDefinition, 'id' | 'visible'>[]) {
+  layerManagerStore.setState((prev) => {
+    const missing = layers.filter((layer) => !(layer.id in prev.overlays));
+    if (missing.length === 0) return prev;
+    return {
+      ...prev,
+      order: [...prev.order, ...missing.map((layer) => layer.id)],
+      overlays: {
+        ...prev.overlays,
+        ...Object.fromEntries(
+          missing.map((layer) => [layer.id, { visible: layer.visible, opacity: 1 }])
+        ),
+      },
+    };
+  });
+}
+
+// Add an overlay the user just brought in (e.g. an imported file) on top
+function addOverlay(id: string) {
+  layerManagerStore.setState((prev) => {
+    if (id in prev.overlays) return prev;
+    return {
+      ...prev,
+      order: [id, ...prev.order],
+      overlays: { ...prev.overlays, [id]: { visible: true, opacity: 1 } },
+    };
+  });
+}
+
+function removeOverlay(id: string) {
+  layerManagerStore.setState((prev) => {
+    if (!(id in prev.overlays)) return prev;
+    const { [id]: _removed, ...overlays } = prev.overlays;
+    return { ...prev, order: prev.order.filter((other) => other !== id), overlays };
+  });
+}
+
+// Show exactly these overlays, stacked in the given order (topmost first)
+// above the remaining hidden ones. Unknown ids are ignored.
+function showOnlyLayers(ids: string[]) {
+  layerManagerStore.setState((prev) => {
+    const shown = ids.filter((id) => id in prev.overlays);
+    return {
+      ...prev,
+      order: [...shown, ...prev.order.filter((id) => !shown.includes(id))],
+      overlays: Object.fromEntries(
+        Object.entries(prev.overlays).map(([id, display]) => [
+          id,
+          { ...display, visible: shown.includes(id) },
+        ])
+      ),
+    };
+  });
+}
+
+function updateOverlay(id: string, patch: Partial<LayerDisplayState>) {
+  layerManagerStore.setState((prev) => {
+    if (!prev.overlays[id]) return prev;
+    return {
+      ...prev,
+      overlays: { ...prev.overlays, [id]: { ...prev.overlays[id], ...patch } },
+    };
+  });
+}
+
+function updateBasemap(patch: Partial<LayerDisplayState>) {
+  layerManagerStore.setState((prev) => ({
+    ...prev,
+    basemap: { ...prev.basemap, ...patch },
+  }));
+}
+
+function moveOverlay(id: string, toIndex: number) {
+  layerManagerStore.setState((prev) => {
+    const fromIndex = prev.order.indexOf(id);
+    if (fromIndex === -1 || fromIndex === toIndex) return prev;
+    const order = [...prev.order];
+    order.splice(fromIndex, 1);
+    order.splice(Math.max(0, Math.min(toIndex, order.length)), 0, id);
+    return { ...prev, order };
+  });
+}
+
+function overlayZIndex(order: string[], id: string) {
+  return OVERLAY_BASE_Z_INDEX + order.length - order.indexOf(id);
+}
+
+function useLayerManager() {
+  const state = useStore(layerManagerStore);
+  return {
+    ...state,
+    registerLayers,
+    addOverlay,
+    removeOverlay,
+    showOnlyLayers,
+    updateOverlay,
+    updateBasemap,
+    moveOverlay,
+  };
+}
+
+function useOverlayState(id: string) {
+  const display = useStore(layerManagerStore, (state) => state.overlays[id]);
+  const zIndex = useStore(layerManagerStore, (state) =>
+    overlayZIndex(state.order, id)
+  );
+  return {
+    visible: display?.visible ?? false,
+    opacity: display?.opacity ?? 1,
+    zIndex,
+  };
+}
+
+export {
+  layerManagerStore,
+  useLayerManager,
+  useOverlayState,
+  registerLayers,
+  addOverlay,
+  removeOverlay,
+  showOnlyLayers,
+  updateOverlay,
+  updateBasemap,
+  moveOverlay,
+};
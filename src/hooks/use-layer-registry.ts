@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchLayerRegistry, LAYERS_CONFIG_URL } from '@/lib/layers';
+
+export function useLayerRegistry() {
+  return useQuery({
+    queryKey: ['layer-registry', LAYERS_CONFIG_URL],
+    queryFn: () => fetchLayerRegistry(LAYERS_CONFIG_URL),
+    staleTime: Infinity,
+    retry: 1,
+  });
+}
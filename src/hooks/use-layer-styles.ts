@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { createStore, useStore } from '@/lib/store';
+import { readStorage, writeStorage } from '@/lib/storage';
+import { thematicStyleSchema, type ThematicStyle } from '@/lib/thematic';
+
+const STORAGE_KEY = 'layer-styles';
+
+// Layer id -> thematic style; layers without one keep their registry style.
+// Entries are checked one by one, so a stale one only loses its own layer.
+const layerStylesSchema = z
+  .record(z.unknown())
+  .transform((entries) =>
+    Object.fromEntries(
+      Object.entries(entries).flatMap(([layerId, entry]) => {
+        const result = thematicStyleSchema.safeParse(entry);
+        return result.success ? [[layerId, result.data]] : [];
+      })
+    )
+  );
+
+const layerStyleStore = createStore<Record<string, ThematicStyle>>(
+  readStorage(STORAGE_KEY, layerStylesSchema, {}) as Record<string, ThematicStyle>
+);
+
+layerStyleStore.subscribe(() => writeStorage(STORAGE_KEY, layerStyleStore.getState()));
+
+// Set a layer's thematic style, or go back to the registry style with null
+function setLayerStyle(layerId: string, style: ThematicStyle | null) {
+  layerStyleStore.setState((prev) => {
+    const { [layerId]: _previous, ...rest } = prev;
+    return style ? { ...rest, [layerId]: style } : rest;
+  });
+}
+
+function useLayerStyle(layerId: string): ThematicStyle | null {
+  return useStore(layerStyleStore, (state) => state[layerId] ?? null);
+}
+
+function useLayerStyles() {
+  return useStore(layerStyleStore);
+}
+
+export { layerStyleStore, setLayerStyle, useLayerStyle, useLayerStyles };
@@ -0,0 +1,81 @@
+import { useCallback, useMemo } from 'react';
+import {
+  mapStyleBase,
+  mapStyleLegend,
+  simpleLegend,
+  thematicLegend,
+  type LegendGroup,
+  type LegendLabels,
+} from '@/lib/legend';
+import type { VectorLayerDefinition } from '@/lib/layers';
+import { useI18n } from '@/hooks/use-i18n';
+import { useLayerRegistry } from '@/hooks/use-layer-registry';
+import { useLayerManager } from '@/hooks/use-layer-manager';
+import { useLayerStyles } from '@/hooks/use-layer-styles';
+import { useImportedLayers } from '@/hooks/use-imported-layers';
+import { useMapView } from '@/hooks/use-map-view';
+
+function layerLabels(
+  layer: VectorLayerDefinition,
+  labels: Pick<LegendLabels, 'number' | 'other'>
+): LegendLabels {
+  const fields = Object.fromEntries(layer.dictionary.map((field) => [field.name, field]));
+  return {
+    ...labels,
+    field: (name) => fields[name]?.label ?? name,
+    value: (field, value) => fields[field]?.codes?.[value] ?? value,
+  };
+}
+
+// Legend of the visible layers at a given zoom, topmost first as the layer
+// manager lists them, from each one's current style: its thematic style,
+// else its map style, else its registry style
+export function useLegendAt(): (zoom: number) => LegendGroup[] {
+  const { data: registry } = useLayerRegistry();
+  const { order, overlays } = useLayerManager();
+  const thematic = useLayerStyles();
+  const importedLayers = useImportedLayers();
+  const { t, formatNumber } = useI18n();
+
+  return useCallback((zoom: number) => {
+    const common = {
+      number: (value: number) => formatNumber(value, { maximumFractionDigits: 2 }),
+      other: t('legend.other'),
+    };
+    return order
+      .filter((id) => overlays[id]?.visible)
+      .map((id): LegendGroup | null => {
+        const layer = registry?.layers.find((candidate) => candidate.id === id);
+        if (layer) {
+          const labels = layerLabels(layer, common);
+          const mapStyle = layer.mapStyle ?? [];
+          // Styles are evaluated at the zoom of the tiles, as the map does
+          const tileZoom = Math.min(Math.round(zoom), layer.maxNativeZoom ?? Infinity);
+          const base = mapStyle.length > 0 ? mapStyleBase(mapStyle, tileZoom) : layer.style;
+          if (!base) return null;
+          if (thematic[id]) return thematicLegend(id, layer.name, thematic[id], base, labels);
+          return mapStyle.length > 0
+            ? mapStyleLegend(id, layer.name, mapStyle, tileZoom, labels)
+            : simpleLegend(id, layer.name, layer.style);
+        }
+        const imported = importedLayers.find((candidate) => candidate.id === id);
+        return (
+          imported &&
+          simpleLegend(id, imported.name, {
+            color: imported.style.color,
+            fillColor: imported.style.color,
+            fillOpacity: imported.style.fillOpacity,
+            fill: imported.style.fillOpacity > 0,
+          })
+        );
+      })
+      .filter((group): group is LegendGroup => group !== null && group !== undefined);
+  }, [registry, order, overlays, thematic, importedLayers, t, formatNumber]);
+}
+
+// Legend of the map as shown on screen
+export function useLegend(): LegendGroup[] {
+  const legendAt = useLegendAt();
+  const { zoom } = useMapView();
+  return useMemo(() => legendAt(zoom), [legendAt, zoom]);
+}
@@ -0,0 +1,30 @@
+import { createStore, useStore } from '@/lib/store';
+
+// Tools that take over map clicks while active; with none, clicks select
+export type MapTool =
+  | 'measure-distance'
+  | 'measure-area'
+  | 'sketch-point'
+  | 'sketch-line'
+  | 'sketch-polygon';
+
+const mapToolStore = createStore<MapTool | null>(null);
+
+// Picking the active tool again turns it off
+function toggleMapTool(tool: MapTool) {
+  mapToolStore.setState((prev) => (prev === tool ? null : tool));
+}
+
+function setMapTool(tool: MapTool | null) {
+  mapToolStore.setState(tool);
+}
+
+function isMapToolActive() {
+  return mapToolStore.getState() !== null;
+}
+
+function useMapTool() {
+  return useStore(mapToolStore);
+}
+
+export { mapToolStore, useMapTool, toggleMapTool, setMapTool, isMapToolActive };
@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import type { LatLngBoundsLiteral } from 'leaflet';
+import { createStore, useStore } from '@/lib/store';
+import type { LayerView } from '@/lib/layers';
+
+// Used until the registry (or the URL) provides a better one
+const DEFAULT_VIEW: LayerView = {
+  latitude: -16.667295,
+  longitude: -49.327279,
+  zoom: 17.15,
+};
+
+// Center and zoom of the map. MapViewer keeps the map and this store in
+// sync, so panels outside the map (bookmarks, history) can move it.
+const mapViewStore = createStore<LayerView>(DEFAULT_VIEW);
+
+function setMapView(view: LayerView | ((prev: LayerView) => LayerView)) {
+  mapViewStore.setState(view);
+}
+
+export interface FitBoundsRequest {
+  bounds: LatLngBoundsLiteral;
+  maxZoom?: number;
+}
+
+// Extent to show, for panels that know one (an annotation, an imported file)
+// rather than a view: only the map knows which zoom fits it at its size, so
+// MapViewer turns the request into a view
+const fitBoundsStore = createStore<FitBoundsRequest | null>(null);
+
+function fitMapBounds(bounds: LatLngBoundsLiteral, maxZoom?: number) {
+  fitBoundsStore.setState({ bounds, maxZoom });
+}
+
+// Seed the store before the map mounts, so it opens at e.g. the permalinked
+// view instead of flying there from the default one
+function useInitialMapView(view: LayerView | undefined) {
+  useState(() => {
+    if (view) mapViewStore.setState(view);
+    return null;
+  });
+}
+
+function useMapView() {
+  return useStore(mapViewStore);
+}
+
+export {
+  DEFAULT_VIEW,
+  mapViewStore,
+  fitBoundsStore,
+  setMapView,
+  fitMapBounds,
+  useInitialMapView,
+  useMapView,
+};
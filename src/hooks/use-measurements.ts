@@ -0,0 +1,102 @@
+import type { LatLngLiteral } from 'leaflet';
+import { createStore, useStore } from '@/lib/store';
+
+export type MeasurementKind = 'distance' | 'area';
+
+export interface Measurement {
+  id: string;
+  kind: MeasurementKind;
+  points: LatLngLiteral[];
+}
+
+interface MeasurementState {
+  // Finished measurements stay on the map until removed
+  measurements: Measurement[];
+  // The one being drawn
+  draft: Measurement | null;
+}
+
+const MIN_POINTS: Record<MeasurementKind, number> = { distance: 2, area: 3 };
+
+const measurementStore = createStore<MeasurementState>({ measurements: [], draft: null });
+
+let nextId = 1;
+
+function isSamePoint(a: LatLngLiteral, b: LatLngLiteral) {
+  return Math.abs(a.lat - b.lat) < 1e-9 && Math.abs(a.lng - b.lng) < 1e-9;
+}
+
+// Add a vertex to the draft, starting one if there is none of this kind
+function addMeasurementPoint(kind: MeasurementKind, point: LatLngLiteral) {
+  measurementStore.setState((prev) => {
+    const draft =
+      prev.draft?.kind === kind ? prev.draft : { id: String(nextId++), kind, points: [] };
+    return { ...prev, draft: { ...draft, points: [...draft.points, point] } };
+  });
+}
+
+function removeLastMeasurementPoint() {
+  measurementStore.setState((prev) => {
+    if (!prev.draft) return prev;
+    const points = prev.draft.points.slice(0, -1);
+    return { ...prev, draft: points.length > 0 ? { ...prev.draft, points } : null };
+  });
+}
+
+// Keep the draft if it has enough vertices. A double click lands its two
+// clicks on the same spot, hence the repeated points are dropped.
+function finishMeasurement() {
+  measurementStore.setState((prev) => {
+    if (!prev.draft) return prev;
+    const points = prev.draft.points.filter(
+      (point, i, all) => i === 0 || !isSamePoint(point, all[i - 1])
+    );
+    if (points.length < MIN_POINTS[prev.draft.kind]) return { ...prev, draft: null };
+    return { measurements: [...prev.measurements, { ...prev.draft, points }], draft: null };
+  });
+}
+
+function cancelMeasurement() {
+  measurementStore.setState((prev) => (prev.draft ? { ...prev, draft: null } : prev));
+}
+
+function moveMeasurementVertex(id: string, index: number, point: LatLngLiteral) {
+  measurementStore.setState((prev) => ({
+    ...prev,
+    measurements: prev.measurements.map((measurement) =>
+      measurement.id === id
+        ? {
+            ...measurement,
+            points: measurement.points.map((p, i) => (i === index ? point : p)),
+          }
+        : measurement
+    ),
+  }));
+}
+
+function removeMeasurement(id: string) {
+  measurementStore.setState((prev) => ({
+    ...prev,
+    measurements: prev.measurements.filter((measurement) => measurement.id !== id),
+  }));
+}
+
+function clearMeasurements() {
+  measurementStore.setState({ measurements: [], draft: null });
+}
+
+function useMeasurements() {
+  return useStore(measurementStore);
+}
+
+export {
+  measurementStore,
+  useMeasurements,
+  addMeasurementPoint,
+  removeLastMeasurementPoint,
+  finishMeasurement,
+  cancelMeasurement,
+  moveMeasurementVertex,
+  removeMeasurement,
+  clearMeasurements,
+};
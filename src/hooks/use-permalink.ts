@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate, useNavigationType } from 'react-router-dom';
+import {
+  buildPermalink,
+  parsePermalink,
+  parseViewHash,
+  type PermalinkState,
+} from '@/lib/permalink';
+
+// How long the view has to stay put before it becomes a history entry, so a
+// pan or a zoom animation adds one entry rather than dozens
+const VIEW_HISTORY_DELAY = 800;
+
+// State encoded in the URL the page was opened with. Read once: afterwards
+// the URL follows the viewer, not the other way round.
+export function useInitialPermalink(): PermalinkState {
+  const location = useLocation();
+  const [initial] = useState(() => parsePermalink(location.search, location.hash));
+  return initial;
+}
+
+// Mirror the viewer state into the URL. A new map view gets its own history
+// entry once it settles, so the browser's Back button steps through views;
+// other changes (layers, basemap, selected lot) replace the current entry.
+// When the user goes back or forward, `onPop` receives the URL's state and
+// the viewer follows it instead.
+export function usePermalinkSync(
+  state: PermalinkState,
+  enabled: boolean,
+  onPop: (permalink: PermalinkState) => void
+) {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const navigationType = useNavigationType();
+  const { search, hash } = buildPermalink(state, location.search);
+  const handledKey = useRef(location.key);
+  const onPopRef = useRef(onPop);
+  onPopRef.current = onPop;
+
+  const popped = navigationType === 'POP' && handledKey.current !== location.key;
+
+  useEffect(() => {
+    if (!popped) return;
+    handledKey.current = location.key;
+    onPopRef.current(parsePermalink(location.search, location.hash));
+  }, [popped, location.key, location.search, location.hash]);
+
+  useEffect(() => {
+    if (!enabled || popped) return;
+    if (search === location.search && hash === location.hash) return;
+    const target = { pathname: location.pathname, search, hash };
+
+    // Without a view in the URL yet (first load) there is nothing to go back to
+    if (hash === location.hash || !parseViewHash(location.hash)) {
+      navigate(target, { replace: true });
+      return;
+    }
+    const timer = setTimeout(() => navigate(target), VIEW_HISTORY_DELAY);
+    return () => clearTimeout(timer);
+  }, [enabled, popped, search, hash, location.pathname, location.search, location.hash, navigate]);
+
+  useEffect(() => {
+    handledKey.current = location.key;
+  }, [location.key]);
+}
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { createStore, useStore } from '@/lib/store';
+import { readStorage, writeStorage } from '@/lib/storage';
+
+const STORAGE_KEY = 'pinned-fields';
+
+// Layer id -> attribute names kept at the top of the inspector
+const pinnedSchema = z.record(z.array(z.string()));
+
+const pinnedFieldsStore = createStore<Record<string, string[]>>(
+  readStorage(STORAGE_KEY, pinnedSchema, {})
+);
+
+pinnedFieldsStore.subscribe(() =>
+  writeStorage(STORAGE_KEY, pinnedFieldsStore.getState())
+);
+
+const NO_PINS: string[] = [];
+
+function togglePinnedField(layerId: string, field: string) {
+  pinnedFieldsStore.setState((prev) => {
+    const pinned = prev[layerId] ?? [];
+    return {
+      ...prev,
+      [layerId]: pinned.includes(field)
+        ? pinned.filter((name) => name !== field)
+        : [...pinned, field],
+    };
+  });
+}
+
+function usePinnedFields(layerId: string) {
+  const pinned = useStore(pinnedFieldsStore, (state) => state[layerId] ?? NO_PINS);
+  return {
+    pinned,
+    togglePinned: (field: string) => togglePinnedField(layerId, field),
+  };
+}
+
+export { usePinnedFields, togglePinnedField };
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { createStore, useStore } from '@/lib/store';
+import { readStorage, writeStorage } from '@/lib/storage';
+import {
+  ORIENTATIONS,
+  PAPER_SIZES,
+  PRINT_FORMATS,
+  type PaperSize,
+  type PrintOptions,
+} from '@/lib/print';
+
+const STORAGE_KEY = 'print';
+
+// Last used settings, offered again next time
+const settingsSchema = z.object({
+  title: z.string(),
+  paper: z.enum(Object.keys(PAPER_SIZES) as [PaperSize, ...PaperSize[]]),
+  orientation: z.enum(ORIENTATIONS),
+  dpi: z.number().positive(),
+  format: z.enum(PRINT_FORMATS),
+  scale: z.number().positive().nullable().default(null),
+});
+
+interface PrintState {
+  settings: PrintOptions;
+  // Print waiting for the map to pick it up
+  request: PrintOptions | null;
+  printing: boolean;
+}
+
+const printStore = createStore<PrintState>({
+  settings: readStorage(STORAGE_KEY, settingsSchema, {
+    title: '',
+    paper: 'a4',
+    orientation: 'landscape',
+    dpi: 150,
+    format: 'pdf',
+    scale: null,
+  }) as PrintOptions,
+  request: null,
+  printing: false,
+});
+
+printStore.subscribe(() => writeStorage(STORAGE_KEY, printStore.getState().settings));
+
+// Ask the map to print itself with these settings (see PrintRenderer)
+function requestPrint(options: PrintOptions) {
+  printStore.setState((prev) => ({ ...prev, settings: options, request: options }));
+}
+
+// The map takes the request, and reports when it is done with it
+function startPrint() {
+  printStore.setState((prev) => ({ ...prev, request: null, printing: true }));
+}
+
+function finishPrint() {
+  printStore.setState((prev) => ({ ...prev, printing: false }));
+}
+
+// While printing, the map is resized and zoomed for the page: those views are
+// not the user's and must not reach the URL or the history
+function isPrinting() {
+  return printStore.getState().printing;
+}
+
+function usePrint() {
+  return useStore(printStore);
+}
+
+export { printStore, usePrint, requestPrint, startPrint, finishPrint, isPrinting };
@@ -0,0 +1,93 @@
+import { createStore, useStore } from '@/lib/store';
+import type { FeatureProperties } from '@/lib/vector-grids';
+
+export interface FeatureRef {
+  layerId: string;
+  id: string;
+}
+
+export interface SelectedFeature extends FeatureRef {
+  properties: FeatureProperties;
+}
+
+interface SelectionState {
+  // In selection order; the last one is the "current" feature
+  selected: SelectedFeature[];
+}
+
+const selectionStore = createStore<SelectionState>({ selected: [] });
+
+function isSameFeature(a: FeatureRef, b: FeatureRef) {
+  return a.layerId === b.layerId && a.id === b.id;
+}
+
+// Replace the selection, or with `additive` (shift-click) toggle the feature
+// in and out of it
+function selectFeature(feature: SelectedFeature, { additive = false } = {}) {
+  selectionStore.setState((prev) => {
+    const rest = prev.selected.filter((item) => !isSameFeature(item, feature));
+    if (!additive) return { selected: [feature] };
+    if (rest.length < prev.selected.length) return { selected: rest };
+    return { selected: [...rest, feature] };
+  });
+}
+
+function deselectFeature(feature: FeatureRef) {
+  selectionStore.setState((prev) => ({
+    selected: prev.selected.filter((item) => !isSameFeature(item, feature)),
+  }));
+}
+
+// Fill in attributes of features selected by id only (deep links) once
+// their tiles are loaded
+function fillSelectedProperties(
+  layerId: string,
+  lookup: (id: string) => FeatureProperties | undefined
+) {
+  selectionStore.setState((prev) => {
+    let changed = false;
+    const selected = prev.selected.map((feature) => {
+      if (feature.layerId !== layerId || Object.keys(feature.properties).length > 0) {
+        return feature;
+      }
+      const properties = lookup(feature.id);
+      if (!properties) return feature;
+      changed = true;
+      return { ...feature, properties };
+    });
+    return changed ? { selected } : prev;
+  });
+}
+
+// Replace the whole selection, e.g. when restoring a saved view
+function setSelection(features: SelectedFeature[]) {
+  selectionStore.setState({ selected: features });
+}
+
+function clearSelection() {
+  selectionStore.setState((prev) =>
+    prev.selected.length > 0 ? { selected: [] } : prev
+  );
+}
+
+function useSelection() {
+  const selected = useStore(selectionStore, (state) => state.selected);
+  return {
+    selected,
+    current: selected[selected.length - 1] ?? null,
+    selectFeature,
+    deselectFeature,
+    clearSelection,
+  };
+}
+
+export {
+  selectionStore,
+  useSelection,
+  isSameFeature,
+  selectFeature,
+  deselectFeature,
+  fillSelectedProperties,
+  setSelection,
+  clearSelection,
+};
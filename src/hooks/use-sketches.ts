@@ -0,0 +1,224 @@
+import { z } from 'zod';
+import type { LatLngLiteral } from 'leaflet';
+import { createStore, useStore } from '@/lib/store';
+import { readStorage, writeStorage } from '@/lib/storage';
+import {
+  MIN_VERTICES,
+  SKETCH_COLORS,
+  createSketchId,
+  sketchSchema,
+  type Sketch,
+  type SketchKind,
+} from '@/lib/sketches';
+
+const STORAGE_KEY = 'sketches';
+// Undo steps kept in memory (history is not persisted)
+const HISTORY_LIMIT = 100;
+
+const persistedSchema = z.object({
+  sketches: z.array(sketchSchema),
+  // Color given to new sketches
+  color: z.string(),
+});
+
+export interface SketchDraft {
+  kind: Exclude<SketchKind, 'point'>;
+  points: LatLngLiteral[];
+}
+
+interface SketchState {
+  sketches: Sketch[];
+  color: string;
+  // Earlier and undone versions of `sketches`, most recent last
+  past: Sketch[][];
+  future: Sketch[][];
+  // Line or polygon being drawn; not part of the history until finished
+  draft: SketchDraft | null;
+  // Sketch open for editing in the panel, e.g. the one just drawn
+  activeId: string | null;
+}
+
+const persisted = readStorage(STORAGE_KEY, persistedSchema, {
+  sketches: [],
+  color: SKETCH_COLORS[0],
+});
+
+const sketchStore = createStore<SketchState>({
+  sketches: persisted.sketches as Sketch[],
+  color: persisted.color,
+  past: [],
+  future: [],
+  draft: null,
+  activeId: null,
+});
+
+sketchStore.subscribe(() => {
+  const { sketches, color } = sketchStore.getState();
+  writeStorage(STORAGE_KEY, { sketches, color });
+});
+
+// Apply an undoable change to the sketches
+function commit(update: (sketches: Sketch[]) => Sketch[]) {
+  sketchStore.setState((prev) => {
+    const sketches = update(prev.sketches);
+    if (sketches === prev.sketches) return prev;
+    return {
+      ...prev,
+      sketches,
+      past: [...prev.past, prev.sketches].slice(-HISTORY_LIMIT),
+      future: [],
+    };
+  });
+}
+
+function createSketch(kind: SketchKind, points: LatLngLiteral[]): Sketch {
+  return {
+    id: createSketchId(),
+    kind,
+    points,
+    label: '',
+    note: '',
+    color: sketchStore.getState().color,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function addSketch(sketch: Sketch) {
+  commit((sketches) => [...sketches, sketch]);
+  setActiveSketch(sketch.id);
+}
+
+function addSketchPoint(point: LatLngLiteral) {
+  addSketch(createSketch('point', [point]));
+}
+
+// Add a vertex to the line or polygon being drawn, starting one if needed
+function addDraftVertex(kind: SketchDraft['kind'], point: LatLngLiteral) {
+  sketchStore.setState((prev) => {
+    const points = prev.draft?.kind === kind ? prev.draft.points : [];
+    return { ...prev, draft: { kind, points: [...points, point] } };
+  });
+}
+
+function removeLastDraftVertex() {
+  sketchStore.setState((prev) => {
+    if (!prev.draft) return prev;
+    const points = prev.draft.points.slice(0, -1);
+    return { ...prev, draft: points.length > 0 ? { ...prev.draft, points } : null };
+  });
+}
+
+// Turn the draft into a sketch if it has enough vertices (repeated ones from
+// a double click dropped)
+function finishDraft() {
+  const { draft } = sketchStore.getState();
+  if (!draft) return;
+  sketchStore.setState((prev) => ({ ...prev, draft: null }));
+  const points = draft.points.filter(
+    (point, i, all) =>
+      i === 0 || point.lat !== all[i - 1].lat || point.lng !== all[i - 1].lng
+  );
+  if (points.length >= MIN_VERTICES[draft.kind]) addSketch(createSketch(draft.kind, points));
+}
+
+function cancelDraft() {
+  sketchStore.setState((prev) => (prev.draft ? { ...prev, draft: null } : prev));
+}
+
+function updateSketch(
+  id: string,
+  patch: Partial<Pick<Sketch, 'label' | 'note' | 'color' | 'points'>>
+) {
+  commit((sketches) => {
+    // Unchanged fields (e.g. leaving a label input as it was) add no undo step
+    const current = sketches.find((sketch) => sketch.id === id);
+    const changed =
+      current &&
+      Object.entries(patch).some(([key, value]) => current[key as keyof Sketch] !== value);
+    if (!changed) return sketches;
+    return sketches.map((sketch) => (sketch.id === id ? { ...sketch, ...patch } : sketch));
+  });
+}
+
+function deleteSketch(id: string) {
+  commit((sketches) => sketches.filter((sketch) => sketch.id !== id));
+}
+
+function clearSketches() {
+  commit((sketches) => (sketches.length > 0 ? [] : sketches));
+}
+
+// Like bookmarks: same id replaces, new ids are appended
+function importSketches(imported: Sketch[]) {
+  commit((sketches) => {
+    const byId = new Map(imported.map((sketch) => [sketch.id, sketch]));
+    const known = new Set(sketches.map((sketch) => sketch.id));
+    return [
+      ...sketches.map((sketch) => byId.get(sketch.id) ?? sketch),
+      ...imported.filter((sketch) => !known.has(sketch.id)),
+    ];
+  });
+  return imported.length;
+}
+
+function undoSketch() {
+  sketchStore.setState((prev) => {
+    if (prev.past.length === 0) return prev;
+    return {
+      ...prev,
+      sketches: prev.past[prev.past.length - 1],
+      past: prev.past.slice(0, -1),
+      future: [...prev.future, prev.sketches],
+    };
+  });
+}
+
+function redoSketch() {
+  sketchStore.setState((prev) => {
+    if (prev.future.length === 0) return prev;
+    return {
+      ...prev,
+      sketches: prev.future[prev.future.length - 1],
+      past: [...prev.past, prev.sketches],
+      future: prev.future.slice(0, -1),
+    };
+  });
+}
+
+function setActiveSketch(id: string | null) {
+  sketchStore.setState((prev) => (prev.activeId === id ? prev : { ...prev, activeId: id }));
+}
+
+function setSketchColor(color: string) {
+  sketchStore.setState((prev) => ({ ...prev, color }));
+}
+
+function useSketches() {
+  const { sketches, color, past, future, draft, activeId } = useStore(sketchStore);
+  return {
+    sketches,
+    color,
+    draft,
+    activeId,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+}
+
+export {
+  sketchStore,
+  useSketches,
+  addSketchPoint,
+  addDraftVertex,
+  removeLastDraftVertex,
+  finishDraft,
+  cancelDraft,
+  updateSketch,
+  deleteSketch,
+  clearSketches,
+  importSketches,
+  undoSketch,
+  redoSketch,
+  setActiveSketch,
+  setSketchColor,
+};
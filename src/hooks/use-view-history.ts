@@ -0,0 +1,61 @@
+import { useCallback, useEffect } from 'react';
+import { useLocation, useNavigate, useNavigationType } from 'react-router-dom';
+import { createStore, useStore } from '@/lib/store';
+
+interface ViewHistoryState {
+  // Keys of the browser history entries made in this session, oldest first
+  keys: string[];
+  index: number;
+}
+
+// The browser doesn't tell how far back or forward one can go, so mirror
+// the entries created while the viewer is open
+const viewHistoryStore = createStore<ViewHistoryState>({ keys: [], index: -1 });
+
+function recordLocation(key: string, type: 'POP' | 'PUSH' | 'REPLACE') {
+  viewHistoryStore.setState((prev) => {
+    if (type === 'PUSH') {
+      const keys = [...prev.keys.slice(0, prev.index + 1), key];
+      return { keys, index: keys.length - 1 };
+    }
+    if (type === 'REPLACE' && prev.index >= 0) {
+      const keys = [...prev.keys];
+      keys[prev.index] = key;
+      return { ...prev, keys };
+    }
+    const index = prev.keys.indexOf(key);
+    // First load (or an entry from before a reload): start over from here
+    return index === -1 ? { keys: [key], index: 0 } : { ...prev, index };
+  });
+}
+
+// Call once, where the router location is available
+function useTrackViewHistory() {
+  const location = useLocation();
+  const navigationType = useNavigationType();
+
+  useEffect(() => {
+    recordLocation(location.key, navigationType);
+  }, [location.key, navigationType]);
+}
+
+function useViewHistory() {
+  const navigate = useNavigate();
+  const canGoBack = useStore(viewHistoryStore, (state) => state.index > 0);
+  const canGoForward = useStore(
+    viewHistoryStore,
+    (state) => state.index < state.keys.length - 1
+  );
+
+  const goBack = useCallback(() => {
+    if (viewHistoryStore.getState().index > 0) navigate(-1);
+  }, [navigate]);
+  const goForward = useCallback(() => {
+    const { keys, index } = viewHistoryStore.getState();
+    if (index < keys.length - 1) navigate(1);
+  }, [navigate]);
+
+  return { canGoBack, canGoForward, goBack, goForward };
+}
+
+export { viewHistoryStore, useTrackViewHistory, useViewHistory };
@@ -0,0 +1,48 @@
+import type { FeatureProperties } from '@/lib/vector-grids';
+
+// Plain-text form of an attribute value, as shown and copied
+export function stringifyValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// href for values that look like web links; anything else (javascript:,
+// data:, relative paths) is rendered as plain text
+export function safeUrl(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  if (!/^(https?:\/\/|www\.)\S+$/i.test(text)) return null;
+  try {
+    const url = new URL(text.startsWith('www.') ? `https://${text}` : text);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r;]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One CSV row per feature; columns are the union of all property names in
+// first-seen order
+export function propertiesToCsv(rows: FeatureProperties[]): string {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+
+  return [
+    columns.map(csvCell).join(','),
+    ...rows.map((row) =>
+      columns.map((column) => csvCell(stringifyValue(row[column]))).join(',')
+    ),
+  ].join('\r\n');
+}
+
+export function propertiesToJson(properties: FeatureProperties): string {
+  return JSON.stringify(properties, null, 2);
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+export const basemapSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  // XYZ template; null draws no tiles at all (blank background)
+  url: z.string().nullable(),
+  attribution: z.string().default(''),
+  subdomains: z.union([z.string(), z.array(z.string())]).optional(),
+  maxNativeZoom: z.number().optional(),
+  maxZoom: z.number().default(22),
+  // Desaturate the tiles client-side (see .basemap-grayscale in index.css)
+  grayscale: z.boolean().default(false),
+  custom: z.boolean().default(false),
+  // Load the tiles with CORS, so prints can include them. Unset: built-in
+  // basemaps do, custom ones only when asked, as servers without the headers
+  // would then show no tiles at all.
+  cors: z.boolean().optional(),
+});
+
+export type BasemapDefinition = z.infer<typeof basemapSchema>;
+
+export const NO_BASEMAP_ID = 'none';
+
+export const BUILTIN_BASEMAPS: BasemapDefinition[] = [
+  {
+    id: 'osm',
+    name: 'OpenStreetMap',
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution:
+      '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    subdomains: 'abc',
+    maxNativeZoom: 19,
+    maxZoom: 22,
+    grayscale: false,
+    custom: false,
+  },
+  {
+    id: 'osm-grayscale',
+    name: 'OpenStreetMap (grayscale)',
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution:
+      '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    subdomains: 'abc',
+    maxNativeZoom: 19,
+    maxZoom: 22,
+    grayscale: true,
+    custom: false,
+  },
+  {
+    id: 'carto-light',
+    name: 'CARTO Light',
+    url: 'https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png',
+    attribution:
+      '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
+    subdomains: 'abcd',
+    maxNativeZoom: 20,
+    maxZoom: 22,
+    grayscale: false,
+    custom: false,
+  },
+  {
+    id: NO_BASEMAP_ID,
+    name: 'None',
+    url: null,
+    attribution: '',
+    maxZoom: 22,
+    grayscale: false,
+    custom: false,
+  },
+];
+
+export const DEFAULT_BASEMAP_ID = 'osm';
+
+// A usable XYZ template needs an http(s) origin and the three tile placeholders
+export function isValidXyzTemplate(url: string): boolean {
+  if (!/^https?:\/\//i.test(url.trim())) return false;
+  return ['{z}', '{x}', '{y}'].every((placeholder) => url.includes(placeholder));
+}
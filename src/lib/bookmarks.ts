@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { viewSchema, type LayerView } from '@/lib/layers';
+
+export const bookmarkSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  view: viewSchema,
+  // Visible overlays, topmost first
+  layers: z.array(z.string()),
+  basemap: z.string().optional(),
+  selection: z.array(z.object({ layerId: z.string(), id: z.string() })).default([]),
+  createdAt: z.string(),
+});
+
+// Bookmarks shared as a file; `version` leaves room for format changes
+const bookmarkFileSchema = z.object({
+  version: z.literal(1),
+  bookmarks: z.array(bookmarkSchema),
+});
+
+export interface Bookmark extends z.infer<typeof bookmarkSchema> {
+  view: LayerView;
+  selection: { layerId: string; id: string }[];
+}
+
+// What went wrong, for the UI to describe (`bookmarks.error.<code>`); the
+// message has the details
+export type BookmarkImportErrorCode = 'json' | 'invalid';
+
+export class BookmarkImportError extends Error {
+  code: BookmarkImportErrorCode;
+
+  constructor(code: BookmarkImportErrorCode, message: string) {
+    super(message);
+    this.name = 'BookmarkImportError';
+    this.code = code;
+  }
+}
+
+export function createBookmarkId() {
+  return `bookmark-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function serializeBookmarks(bookmarks: Bookmark[]): string {
+  return JSON.stringify({ version: 1, bookmarks }, null, 2);
+}
+
+export function parseBookmarkFile(text: string): Bookmark[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new BookmarkImportError('json', 'The file is not valid JSON');
+  }
+  const result = bookmarkFileSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new BookmarkImportError(
+      'invalid',
+      `Invalid bookmark file at ${issue.path.join('.') || '<root>'}: ${issue.message}`
+    );
+  }
+  return result.data.bookmarks as Bookmark[];
+}
@@ -0,0 +1,354 @@
+import { formatNumber, type Locale } from '@/lib/i18n';
+import { latLngToUtm, utmToLatLng, type UtmPosition } from '@/lib/projections';
+
+export type CoordinateFormat = 'decimal' | 'dms' | 'utm' | 'plus-code';
+
+export interface ParsedCoordinates {
+  format: CoordinateFormat;
+  latitude: number;
+  longitude: number;
+  // The projected input, for UTM entries
+  utm?: UtmPosition;
+}
+
+export type CoordinateErrorCode =
+  | 'empty'
+  | 'unrecognized'
+  | 'latitude-range'
+  | 'longitude-range'
+  | 'utm-range'
+  | 'plus-code';
+
+export class CoordinateParseError extends Error {
+  code: CoordinateErrorCode;
+
+  constructor(code: CoordinateErrorCode, message: string) {
+    super(message);
+    this.name = 'CoordinateParseError';
+    this.code = code;
+  }
+}
+
+interface Reference {
+  latitude: number;
+  longitude: number;
+}
+
+// Numbers as typed in Brazil or elsewhere: "-16,6673", "-16.6673",
+// "8.156.000,25" (dot thousands, decimal comma) or "8,156,000.25"
+function parseNumber(text: string): number | null {
+  let normalized = text.replace(/\s/g, '').replace(/^−/, '-');
+  const lastComma = normalized.lastIndexOf(',');
+  const lastDot = normalized.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    const [thousands, decimal] = lastComma > lastDot ? ['.', ','] : [',', '.'];
+    normalized = normalized.split(thousands).join('').replace(decimal, '.');
+  } else if ((normalized.match(/\./g) ?? []).length > 1) {
+    normalized = normalized.split('.').join('');
+  } else {
+    normalized = normalized.replace(',', '.');
+  }
+  if (!/^[+-]?\d+(\.\d+)?$/.test(normalized)) return null;
+  return Number(normalized);
+}
+
+// Split a pasted pair into its two numbers. A comma is a decimal separator
+// unless the text shows otherwise ("; ", ", ", or a lone comma between
+// dotted decimals)
+function splitPair(text: string): [string, string] | null {
+  const trimmed = text.trim();
+  const commas = (trimmed.match(/,/g) ?? []).length;
+  let parts: string[];
+  if (trimmed.includes(';')) {
+    parts = trimmed.split(';');
+  } else if (/,\s/.test(trimmed)) {
+    parts = trimmed.split(/,\s+/);
+  } else if (commas === 1 && (trimmed.includes('.') || !/\s/.test(trimmed))) {
+    parts = trimmed.split(',');
+  } else if (commas === 3 && !/\s/.test(trimmed)) {
+    // "-16,6673,-49,3273": the middle comma separates
+    const middle = trimmed.indexOf(',', trimmed.indexOf(',') + 1);
+    parts = [trimmed.slice(0, middle), trimmed.slice(middle + 1)];
+  } else {
+    parts = trimmed.split(/\s+/);
+  }
+  parts = parts.map((part) => part.trim()).filter(Boolean);
+  return parts.length === 2 ? [parts[0], parts[1]] : null;
+}
+
+function checkRanges(latitude: number, longitude: number) {
+  if (Math.abs(latitude) > 90) {
+    throw new CoordinateParseError('latitude-range', `Latitude ${latitude} is out of range`);
+  }
+  if (Math.abs(longitude) > 180) {
+    throw new CoordinateParseError('longitude-range', `Longitude ${longitude} is out of range`);
+  }
+}
+
+// --- Plus Codes (Open Location Code) ---
+
+const OLC_ALPHABET = '23456789CFGHJMPQRVWX';
+// Degrees per digit for the five leading pairs
+const OLC_PAIR_RESOLUTIONS = [20, 1, 0.05, 0.0025, 0.000125];
+const PLUS_CODE = /^([23456789CFGHJMPQRVWX]{2,8})(0*)\+([23456789CFGHJMPQRVWX]*)$/i;
+
+function decodePlusCode(code: string) {
+  const digits = code.replace('+', '').replace(/0+$/, '').toUpperCase();
+  let latitude = -90;
+  let longitude = -180;
+  let latResolution = 0;
+  let lngResolution = 0;
+  for (let i = 0; i < Math.min(digits.length, 10); i += 2) {
+    const resolution = OLC_PAIR_RESOLUTIONS[i / 2];
+    latitude += OLC_ALPHABET.indexOf(digits[i]) * resolution;
+    longitude += OLC_ALPHABET.indexOf(digits[i + 1]) * resolution;
+    latResolution = lngResolution = resolution;
+  }
+  // Past the pairs, each digit refines a 4 x 5 grid
+  for (const digit of digits.slice(10)) {
+    const index = OLC_ALPHABET.indexOf(digit);
+    latResolution /= 5;
+    lngResolution /= 4;
+    latitude += Math.floor(index / 4) * latResolution;
+    longitude += (index % 4) * lngResolution;
+  }
+  return {
+    latitude: latitude + latResolution / 2,
+    longitude: longitude + lngResolution / 2,
+  };
+}
+
+function plusCodePrefix({ latitude, longitude }: Reference, length: number) {
+  let lat = Math.min(Math.max(latitude, -90), 90 - 1e-9) + 90;
+  let lng = (((longitude + 180) % 360) + 360) % 360;
+  let prefix = '';
+  for (let i = 0; i < length / 2; i++) {
+    const resolution = OLC_PAIR_RESOLUTIONS[i];
+    const latDigit = Math.floor(lat / resolution);
+    const lngDigit = Math.floor(lng / resolution);
+    prefix += OLC_ALPHABET[latDigit] + OLC_ALPHABET[lngDigit];
+    lat -= latDigit * resolution;
+    lng -= lngDigit * resolution;
+  }
+  return prefix;
+}
+
+function parsePlusCode(text: string, reference?: Reference): ParsedCoordinates | null {
+  // A locality may follow the code ("8JMH+XX Goiânia"); the reference stands in for it
+  const [code] = text.trim().split(/[\s,]+/);
+  const match = PLUS_CODE.exec(code);
+  if (!match) return null;
+
+  const [, head, padding, tail] = match;
+  const separator = head.length + padding.length;
+  const invalid =
+    separator % 2 !== 0 ||
+    separator > 8 ||
+    tail.length === 1 ||
+    (padding.length > 0 && (separator !== 8 || tail.length > 0)) ||
+    OLC_ALPHABET.indexOf(head[0].toUpperCase()) > 8;
+  if (invalid) {
+    throw new CoordinateParseError('plus-code', `"${code}" is not a valid Plus Code`);
+  }
+
+  if (separator === 8) {
+    return { format: 'plus-code', ...decodePlusCode(code) };
+  }
+  if (!reference) {
+    throw new CoordinateParseError('plus-code', `Short Plus Code "${code}" needs a reference location`);
+  }
+
+  // Short code: borrow the leading digits from the reference, then pick the
+  // candidate cell nearest to it
+  const paddingLength = 8 - separator;
+  const resolution = OLC_PAIR_RESOLUTIONS[paddingLength / 2 - 1];
+  const area = decodePlusCode(plusCodePrefix(reference, paddingLength) + code);
+  let { latitude, longitude } = area;
+  if (reference.latitude + resolution / 2 < latitude && latitude - resolution >= -90) {
+    latitude -= resolution;
+  } else if (reference.latitude - resolution / 2 > latitude && latitude + resolution <= 90) {
+    latitude += resolution;
+  }
+  if (reference.longitude + resolution / 2 < longitude) longitude -= resolution;
+  else if (reference.longitude - resolution / 2 > longitude) longitude += resolution;
+  return { format: 'plus-code', latitude, longitude };
+}
+
+// --- UTM ---
+
+const UTM_ZONE = /(?:^|\s)(\d{1,2})\s?([C-HJ-NP-X])(?=\s|$)/i;
+const MIN_EASTING = 100_000;
+const MAX_EASTING = 900_000;
+const MAX_NORTHING = 10_000_000;
+
+// Easting/northing in metres, with an optional zone ("22S", "22K"); zone 22
+// south (Goiânia) when none is given. Labels like "E:", "mN" are ignored.
+function parseUtm(text: string): ParsedCoordinates {
+  let zone = 22;
+  let south = true;
+  let rest = text;
+  const zoneMatch = UTM_ZONE.exec(text);
+  if (zoneMatch) {
+    zone = Number(zoneMatch[1]);
+    const band = zoneMatch[2].toUpperCase();
+    // "S"/"N" are read as hemispheres, as written in Brazilian documents;
+    // other letters are latitude bands (C-M south of the equator)
+    south = band === 'S' || (band !== 'N' && band < 'N');
+    rest = text.replace(zoneMatch[0], ' ');
+  }
+
+  const pair = splitPair(rest.replace(/[a-z:]/gi, ' '));
+  const values = pair?.map(parseNumber);
+  if (!values || values.some((value) => value === null) || zone < 1 || zone > 60) {
+    throw new CoordinateParseError('unrecognized', `Could not read "${text}" as UTM`);
+  }
+
+  let [easting, northing] = values;
+  if (easting > MAX_EASTING && northing <= MAX_EASTING) [easting, northing] = [northing, easting];
+  if (easting < MIN_EASTING || easting > MAX_EASTING || northing < 0 || northing > MAX_NORTHING) {
+    throw new CoordinateParseError('utm-range', `${easting} ${northing} is outside UTM ranges`);
+  }
+
+  const utm = { easting, northing, zone, south };
+  return { format: 'utm', ...utmToLatLng(utm), utm };
+}
+
+// --- Degrees, minutes, seconds ---
+
+const NUMBER = String.raw`\d+(?:[.,]\d+)?`;
+const DMS_BODY = String.raw`([-+−]?${NUMBER})\s*[°º]?\s*(?:(${NUMBER})\s*['′’]\s*)?(?:(${NUMBER})\s*["″”]\s*)?`;
+const HEMISPHERE = '([NSEWOL])';
+// The letter goes either before or after every component, never both, so a
+// trailing "S" is not taken for the next component's prefix
+const DMS_PREFIXED = new RegExp(String.raw`${HEMISPHERE}\s*${DMS_BODY}`, 'gi');
+const DMS_SUFFIXED = new RegExp(String.raw`${DMS_BODY}${HEMISPHERE}?`, 'gi');
+
+// N/S and E/W, with the Portuguese L (leste) and O (oeste)
+function parseDms(text: string): ParsedCoordinates {
+  const trimmed = text.trim();
+  const prefixed = /^[NSEWOL]/i.test(trimmed);
+  const pattern = prefixed ? DMS_PREFIXED : DMS_SUFFIXED;
+  const matches = [...trimmed.matchAll(pattern)];
+  const leftover = trimmed.replace(pattern, '');
+  const fail = () =>
+    new CoordinateParseError('unrecognized', `Could not read "${text}" as degrees`);
+  if (matches.length !== 2 || !/^[\s,;]*$/.test(leftover)) throw fail();
+
+  const components = matches.map((match) => {
+    const [letter, degreesText, minutesText, secondsText] = prefixed
+      ? [match[1], match[2], match[3], match[4]]
+      : [match[4], match[1], match[2], match[3]];
+    const degrees = parseNumber(degreesText);
+    const minutes = minutesText ? parseNumber(minutesText) : 0;
+    const seconds = secondsText ? parseNumber(secondsText) : 0;
+    if (degrees === null || minutes >= 60 || seconds >= 60) throw fail();
+
+    const hemisphere = letter?.toUpperCase();
+    const negative = /^[-−]/.test(degreesText) || ['S', 'W', 'O'].includes(hemisphere);
+    const value = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+    return {
+      axis: hemisphere ? (['N', 'S'].includes(hemisphere) ? 'lat' : 'lng') : undefined,
+      value: negative ? -value : value,
+    };
+  });
+
+  const [first, second] = components;
+  if (first.axis && first.axis === second.axis) throw fail();
+  const latitudeFirst = first.axis !== 'lng' && second.axis !== 'lat';
+  const [latitude, longitude] = latitudeFirst
+    ? [first.value, second.value]
+    : [second.value, first.value];
+  return { format: 'dms', latitude, longitude };
+}
+
+// Read whatever was typed or pasted into the coordinate box: decimal degrees
+// (with decimal point or comma), degrees/minutes/seconds, UTM SIRGAS 2000
+// or a Plus Code. Short Plus Codes are resolved near `reference` (the map
+// center). Throws CoordinateParseError when the text can't be used.
+export function parseCoordinates(input: string, reference?: Reference): ParsedCoordinates {
+  const text = input.trim();
+  if (!text) throw new CoordinateParseError('empty', 'No coordinates given');
+
+  let parsed = parsePlusCode(text, reference);
+  if (!parsed) {
+    const numbers = (text.match(/\d[\d.,]*/g) ?? []).map((token) =>
+      parseNumber(token.replace(/[.,]$/, ''))
+    );
+    if (numbers.some((value) => value !== null && value > 180)) {
+      parsed = parseUtm(text);
+    } else if (/[°º'′’"″”]|[NSEWOL]/i.test(text)) {
+      parsed = parseDms(text);
+    } else {
+      const pair = splitPair(text);
+      const [latitude, longitude] = pair?.map(parseNumber) ?? [null, null];
+      if (latitude === null || longitude === null) {
+        throw new CoordinateParseError('unrecognized', `Could not read "${text}"`);
+      }
+      parsed = { format: 'decimal', latitude, longitude };
+    }
+  }
+
+  checkRanges(parsed.latitude, parsed.longitude);
+  return parsed;
+}
+
+// "lat; lng" with the locale's decimal separator, in a form parseCoordinates
+// reads back
+export function formatCoordinatePair(
+  locale: Locale,
+  latitude: number,
+  longitude: number,
+  digits = 6
+) {
+  const options = { minimumFractionDigits: digits, maximumFractionDigits: digits, useGrouping: false };
+  const separator = formatNumber(locale, 0.5).includes(',') ? '; ' : ', ';
+  return [latitude, longitude].map((value) => formatNumber(locale, value, options)).join(separator);
+}
+
+export const DISPLAY_FORMATS = ['dd', 'dms', 'utm'] as const;
+export type CoordinateDisplayFormat = (typeof DISPLAY_FORMATS)[number];
+
+// Hemisphere letters as written in each language (leste/oeste in Portuguese)
+const HEMISPHERES: Record<Locale, { north: string; south: string; east: string; west: string }> = {
+  'pt-BR': { north: 'N', south: 'S', east: 'L', west: 'O' },
+  en: { north: 'N', south: 'S', east: 'E', west: 'W' },
+};
+
+function formatDmsComponent(locale: Locale, value: number, positive: string, negative: string) {
+  // Round once, in tenths of a second, so 59.96″ carries into the minutes
+  const tenths = Math.round(Math.abs(value) * 36000);
+  const degrees = Math.floor(tenths / 36000);
+  const minutes = Math.floor((tenths % 36000) / 600);
+  const seconds = formatNumber(locale, (tenths % 600) / 10, {
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+    minimumIntegerDigits: 2,
+  });
+  const padded = String(minutes).padStart(2, '0');
+  return `${degrees}°${padded}′${seconds}″${value < 0 ? negative : positive}`;
+}
+
+export function formatUtm(locale: Locale, { easting, northing, zone, south }: UtmPosition) {
+  const options = { minimumFractionDigits: 2, maximumFractionDigits: 2, useGrouping: false };
+  return `${zone}${south ? 'S' : 'N'} ${formatNumber(locale, easting, options)} E ${formatNumber(locale, northing, options)} N`;
+}
+
+// A position as text in one of the readout formats; parseCoordinates reads
+// all of them back
+export function formatCoordinates(
+  locale: Locale,
+  latitude: number,
+  longitude: number,
+  format: CoordinateDisplayFormat
+) {
+  switch (format) {
+    case 'dms': {
+      const { north, south, east, west } = HEMISPHERES[locale];
+      return `${formatDmsComponent(locale, latitude, north, south)} ${formatDmsComponent(locale, longitude, east, west)}`;
+    }
+    case 'utm':
+      return formatUtm(locale, latLngToUtm(latitude, longitude));
+    default:
+      return formatCoordinatePair(locale, latitude, longitude);
+  }
+}
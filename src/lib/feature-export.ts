@@ -0,0 +1,294 @@
+import proj4 from 'proj4';
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import type { LatLng } from 'leaflet';
+import { propertiesToCsv, stringifyValue } from '@/lib/attributes';
+import { mapPositions } from '@/lib/imports';
+import { UTM_22S } from '@/lib/projections';
+import type { FeatureProperties, LoadedFeature } from '@/lib/vector-grids';
+
+export const EXPORT_FORMATS = ['geojson', 'csv', 'kml', 'wkt'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CRS = ['wgs84', 'utm22s'] as const;
+export type ExportCrs = (typeof EXPORT_CRS)[number];
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; type: string }> = {
+  geojson: { extension: 'geojson', type: 'application/geo+json' },
+  csv: { extension: 'csv', type: 'text/csv' },
+  kml: { extension: 'kml', type: 'application/vnd.google-earth.kml+xml' },
+  wkt: { extension: 'wkt', type: 'text/plain' },
+};
+
+// KML is WGS84 by definition
+export function supportsCrs(format: ExportFormat) {
+  return format !== 'kml';
+}
+
+// A feature ready to be written, with its geometry in WGS84
+export interface ExportFeature {
+  layerId: string;
+  id: string;
+  properties: FeatureProperties;
+  geometry: Geometry;
+}
+
+// Decimals kept per CRS: about a centimetre in degrees, a millimetre in metres
+const PRECISION: Record<ExportCrs, number> = { wgs84: 7, utm22s: 3 };
+
+function toPosition({ lat, lng }: LatLng): Position {
+  return [lng, lat];
+}
+
+// Twice the signed area, positive for counter-clockwise rings (x east, y north)
+function ringArea2(ring: Position[]) {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+  }
+  return sum;
+}
+
+function closeRing(ring: Position[]) {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+// Vector tiles give polygons as a flat list of rings, each exterior followed by
+// its holes. Exteriors share a winding, the one of the first ring; they come
+// out counter-clockwise and holes clockwise, as RFC 7946 asks.
+function ringsToPolygons(rings: Position[][]): Position[][][] {
+  const exteriorSign = Math.sign(ringArea2(rings[0]));
+  const polygons: Position[][][] = [];
+  for (const ring of rings) {
+    const area = ringArea2(ring);
+    if (area === 0) continue;
+    const isExterior = Math.sign(area) === exteriorSign || polygons.length === 0;
+    const wound = (area > 0) === isExterior ? ring : [...ring].reverse();
+    if (isExterior) polygons.push([closeRing(wound)]);
+    else polygons[polygons.length - 1].push(closeRing(wound));
+  }
+  return polygons;
+}
+
+// Rebuild the GeoJSON geometry of a feature from its loaded tile parts. Polygons
+// are whole where the tiles they cross are loaded (see getLoadedFeatures).
+export function loadedFeatureGeometry({ kind, latLngs }: LoadedFeature): Geometry {
+  const parts = latLngs.map((part) => part.map(toPosition));
+  if (kind === 'point') {
+    // A point near a tile edge is also in the neighbouring tile's buffer
+    const points = [...new Map(parts.flat().map((point) => [point.join(), point])).values()];
+    return points.length === 1
+      ? { type: 'Point', coordinates: points[0] }
+      : { type: 'MultiPoint', coordinates: points };
+  }
+  if (kind === 'line') {
+    return parts.length === 1
+      ? { type: 'LineString', coordinates: parts[0] }
+      : { type: 'MultiLineString', coordinates: parts };
+  }
+  const polygons = ringsToPolygons(parts);
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+function projectGeometry(geometry: Geometry, crs: ExportCrs): Geometry {
+  const factor = 10 ** PRECISION[crs];
+  const round = (value: number) => Math.round(value * factor) / factor;
+  const converter = crs === 'utm22s' ? proj4('EPSG:4326', UTM_22S) : null;
+  return mapPositions(geometry, (position) =>
+    (converter ? converter.forward([position[0], position[1]]) : position).map(round)
+  );
+}
+
+function polygonsOf(geometry: Geometry): Position[][][] {
+  if (geometry.type === 'Polygon') return [geometry.coordinates];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+}
+
+// Area-weighted centroid for polygons, mean of the vertices otherwise, in the
+// geometry's own (planar) coordinates
+export function geometryCentroid(geometry: Geometry): Position | null {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (const ring of polygonsOf(geometry).flat()) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const cross = ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+      area += cross;
+      x += (ring[j][0] + ring[i][0]) * cross;
+      y += (ring[j][1] + ring[i][1]) * cross;
+    }
+  }
+  if (area !== 0) return [x / (3 * area), y / (3 * area)];
+
+  const positions: Position[] = [];
+  mapPositions(geometry, (position) => {
+    positions.push(position);
+    return position;
+  });
+  if (positions.length === 0) return null;
+  return [
+    positions.reduce((sum, position) => sum + position[0], 0) / positions.length,
+    positions.reduce((sum, position) => sum + position[1], 0) / positions.length,
+  ];
+}
+
+function toGeoJSON(features: ExportFeature[], crs: ExportCrs): string {
+  const collection: FeatureCollection & { crs?: unknown } = {
+    type: 'FeatureCollection',
+    features: features.map(
+      (feature): Feature => ({
+        type: 'Feature',
+        id: feature.id,
+        geometry: projectGeometry(feature.geometry, crs),
+        properties: { layer: feature.layerId, ...feature.properties },
+      })
+    ),
+  };
+  // RFC 7946 only knows WGS84; other CRSs go in the older `crs` member, which
+  // QGIS (and the import here) read
+  if (crs === 'utm22s') {
+    collection.crs = { type: 'name', properties: { name: 'urn:ogc:def:crs:EPSG::31982' } };
+  }
+  return JSON.stringify(collection, null, 2);
+}
+
+// Attributes plus the centroid, as lon/lat or easting/northing
+function toCsv(features: ExportFeature[], crs: ExportCrs): string {
+  const [xColumn, yColumn] =
+    crs === 'utm22s' ? ['centroid_e', 'centroid_n'] : ['centroid_lon', 'centroid_lat'];
+  return propertiesToCsv(
+    features.map((feature) => {
+      const centroid = geometryCentroid(projectGeometry(feature.geometry, crs));
+      const factor = 10 ** PRECISION[crs];
+      return {
+        layer: feature.layerId,
+        id: feature.id,
+        ...feature.properties,
+        [xColumn]: centroid && Math.round(centroid[0] * factor) / factor,
+        [yColumn]: centroid && Math.round(centroid[1] * factor) / factor,
+      };
+    })
+  );
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function kmlCoordinates(positions: Position[]) {
+  return `<coordinates>${positions.map((position) => position.join(',')).join(' ')}</coordinates>`;
+}
+
+function kmlPolygon(rings: Position[][]) {
+  const [outer, ...holes] = rings;
+  return [
+    '<Polygon>',
+    `<outerBoundaryIs><LinearRing>${kmlCoordinates(outer)}</LinearRing></outerBoundaryIs>`,
+    ...holes.map(
+      (hole) => `<innerBoundaryIs><LinearRing>${kmlCoordinates(hole)}</LinearRing></innerBoundaryIs>`
+    ),
+    '</Polygon>',
+  ].join('');
+}
+
+function kmlGeometry(geometry: Geometry): string {
+  switch (geometry.type) {
+    case 'Point':
+      return `<Point>${kmlCoordinates([geometry.coordinates])}</Point>`;
+    case 'LineString':
+      return `<LineString>${kmlCoordinates(geometry.coordinates)}</LineString>`;
+    case 'Polygon':
+      return kmlPolygon(geometry.coordinates);
+    case 'MultiPoint':
+      return `<MultiGeometry>${geometry.coordinates.map((point) => kmlGeometry({ type: 'Point', coordinates: point })).join('')}</MultiGeometry>`;
+    case 'MultiLineString':
+      return `<MultiGeometry>${geometry.coordinates.map((line) => kmlGeometry({ type: 'LineString', coordinates: line })).join('')}</MultiGeometry>`;
+    case 'MultiPolygon':
+      return `<MultiGeometry>${geometry.coordinates.map(kmlPolygon).join('')}</MultiGeometry>`;
+    case 'GeometryCollection':
+      return `<MultiGeometry>${geometry.geometries.map(kmlGeometry).join('')}</MultiGeometry>`;
+  }
+}
+
+function toKml(features: ExportFeature[]): string {
+  const placemarks = features.map((feature) => {
+    const data = Object.entries(feature.properties)
+      .map(
+        ([name, value]) =>
+          `<Data name="${escapeXml(name)}"><value>${escapeXml(stringifyValue(value))}</value></Data>`
+      )
+      .join('');
+    return [
+      '<Placemark>',
+      `<name>${escapeXml(feature.id)}</name>`,
+      `<ExtendedData>${data}</ExtendedData>`,
+      kmlGeometry(projectGeometry(feature.geometry, 'wgs84')),
+      '</Placemark>',
+    ].join('');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    ...placemarks,
+    '</Document>',
+    '</kml>',
+  ].join('\n');
+}
+
+function wktPositions(positions: Position[]) {
+  return `(${positions.map((position) => position.join(' ')).join(', ')})`;
+}
+
+function wktRings(rings: Position[][]) {
+  return `(${rings.map(wktPositions).join(', ')})`;
+}
+
+function wktGeometry(geometry: Geometry): string {
+  switch (geometry.type) {
+    case 'Point':
+      return `POINT (${geometry.coordinates.join(' ')})`;
+    case 'MultiPoint':
+      return `MULTIPOINT ${wktPositions(geometry.coordinates)}`;
+    case 'LineString':
+      return `LINESTRING ${wktPositions(geometry.coordinates)}`;
+    case 'MultiLineString':
+      return `MULTILINESTRING ${wktRings(geometry.coordinates)}`;
+    case 'Polygon':
+      return `POLYGON ${wktRings(geometry.coordinates)}`;
+    case 'MultiPolygon':
+      return `MULTIPOLYGON (${geometry.coordinates.map(wktRings).join(', ')})`;
+    case 'GeometryCollection':
+      return `GEOMETRYCOLLECTION (${geometry.geometries.map(wktGeometry).join(', ')})`;
+  }
+}
+
+// One geometry per line, in the order of the features
+function toWkt(features: ExportFeature[], crs: ExportCrs): string {
+  return features.map((feature) => wktGeometry(projectGeometry(feature.geometry, crs))).join('\n');
+}
+
+export function serializeFeatures(
+  features: ExportFeature[],
+  format: ExportFormat,
+  crs: ExportCrs
+): string {
+  switch (format) {
+    case 'geojson':
+      return toGeoJSON(features, crs);
+    case 'csv':
+      return toCsv(features, crs);
+    case 'kml':
+      return toKml(features);
+    case 'wkt':
+      return toWkt(features, crs);
+  }
+}
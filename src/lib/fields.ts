@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import { stringifyValue } from '@/lib/attributes';
+import { DEFAULT_LOCALE, translate, type Locale } from '@/lib/i18n';
+import type { FeatureProperties } from '@/lib/vector-grids';
+
+export const FIELD_TYPES = [
+  'text',
+  'integer',
+  'number',
+  'area',
+  'length',
+  'currency',
+  'percent',
+  'date',
+  'boolean',
+  'code',
+] as const;
+
+export const fieldSchema = z.object({
+  // Column name in the tiles
+  name: z.string().min(1),
+  label: z.string().optional(),
+  type: z.enum(FIELD_TYPES).default('text'),
+  // Display unit (area/length/number) or ISO currency code (currency)
+  unit: z.string().optional(),
+  decimals: z.number().int().min(0).max(10).optional(),
+  // Code list: raw value -> description
+  codes: z.record(z.string()).optional(),
+  // Internal columns that should not be shown
+  hidden: z.boolean().default(false),
+});
+
+export type FieldType = (typeof FIELD_TYPES)[number];
+export type FieldDefinition = z.infer<typeof fieldSchema>;
+
+export interface FormattedValue {
+  text: string;
+  // null, undefined and empty strings; 0 and false are real values
+  isNull: boolean;
+}
+
+export interface DescribedAttribute extends FormattedValue {
+  name: string;
+  label: string;
+  value: unknown;
+  definition?: FieldDefinition;
+}
+
+const TRUE_VALUES = ['true', 't', 's', 'sim', 'y', 'yes', '1'];
+const FALSE_VALUES = ['false', 'f', 'n', 'nao', 'não', 'no', '0'];
+
+const DEFAULT_UNITS: Partial<Record<FieldType, string>> = {
+  area: 'm²',
+  length: 'm',
+};
+
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value !== 'number' && typeof value !== 'string') return null;
+  // Date-only strings are calendar dates, not UTC midnight
+  const text = String(value);
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(text)
+    ? new Date(`${text}T00:00:00`)
+    : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function isNullValue(value: unknown) {
+  return value === null || value === undefined || value === '';
+}
+
+export function formatValue(
+  value: unknown,
+  definition: FieldDefinition | undefined,
+  locale: Locale = DEFAULT_LOCALE
+): FormattedValue {
+  if (isNullValue(value)) return { text: '', isNull: true };
+  if (!definition) return { text: stringifyValue(value), isNull: false };
+
+  const raw = stringifyValue(value);
+  const number = toNumber(value);
+  const decimals = definition.decimals;
+  const numberFormat = (options: Intl.NumberFormatOptions = {}) =>
+    new Intl.NumberFormat(locale, {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals ?? 2,
+      ...options,
+    });
+
+  switch (definition.type) {
+    case 'integer':
+      return {
+        text: number === null ? raw : numberFormat({ maximumFractionDigits: 0 }).format(number),
+        isNull: false,
+      };
+    case 'number':
+    case 'area':
+    case 'length': {
+      if (number === null) return { text: raw, isNull: false };
+      const unit = definition.unit ?? DEFAULT_UNITS[definition.type];
+      const text = numberFormat().format(number);
+      return { text: unit ? `${text} ${unit}` : text, isNull: false };
+    }
+    case 'currency':
+      return {
+        text:
+          number === null
+            ? raw
+            : numberFormat({
+                style: 'currency',
+                currency: definition.unit ?? 'BRL',
+                minimumFractionDigits: decimals ?? 2,
+              }).format(number),
+        isNull: false,
+      };
+    case 'percent':
+      return {
+        text: number === null ? raw : numberFormat({ style: 'percent' }).format(number / 100),
+        isNull: false,
+      };
+    case 'date': {
+      const date = toDate(value);
+      return {
+        text: date ? new Intl.DateTimeFormat(locale).format(date) : raw,
+        isNull: false,
+      };
+    }
+    case 'boolean': {
+      const normalized = raw.trim().toLowerCase();
+      if (value === true || TRUE_VALUES.includes(normalized)) return { text: translate(locale, 'value.true'), isNull: false };
+      if (value === false || FALSE_VALUES.includes(normalized)) return { text: translate(locale, 'value.false'), isNull: false };
+      return { text: raw, isNull: false };
+    }
+    case 'code': {
+      const description = definition.codes?.[raw];
+      return { text: description ? `${description} (${raw})` : raw, isNull: false };
+    }
+    default:
+      return { text: raw, isNull: false };
+  }
+}
+
+// Attributes in dictionary order (undeclared columns after, as they come),
+// with labels and formatted values; hidden fields are left out
+export function describeAttributes(
+  properties: FeatureProperties,
+  dictionary: FieldDefinition[],
+  locale: Locale = DEFAULT_LOCALE
+): DescribedAttribute[] {
+  const byName = new Map(dictionary.map((definition) => [definition.name, definition]));
+  const declared = dictionary
+    .map((definition) => definition.name)
+    .filter((name) => name in properties);
+  const undeclared = Object.keys(properties).filter((name) => !byName.has(name));
+
+  return [...declared, ...undeclared]
+    .map((name) => ({ name, definition: byName.get(name) }))
+    .filter(({ definition }) => !definition?.hidden)
+    .map(({ name, definition }) => ({
+      name,
+      label: definition?.label ?? name,
+      value: properties[name],
+      definition,
+      ...formatValue(properties[name], definition, locale),
+    }));
+}
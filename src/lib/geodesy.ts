@@ -0,0 +1,108 @@
+import type { LatLngLiteral } from 'leaflet';
+import { formatNumber, type Locale } from '@/lib/i18n';
+
+// GRS80, the ellipsoid of SIRGAS 2000 (WGS84 differs by less than a millimetre)
+const SEMI_MAJOR_AXIS = 6378137;
+const FLATTENING = 1 / 298.257222101;
+const SEMI_MINOR_AXIS = SEMI_MAJOR_AXIS * (1 - FLATTENING);
+// Radius of the sphere with the same surface as the ellipsoid
+const AUTHALIC_RADIUS = 6371007.2;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+function haversineDistance(a: LatLngLiteral, b: LatLngLiteral) {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * AUTHALIC_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Distance in metres along the ellipsoid (Vincenty's inverse formula), good
+// to the millimetre; falls back to the sphere for nearly antipodal points,
+// where the iteration does not converge
+export function geodesicDistance(a: LatLngLiteral, b: LatLngLiteral): number {
+  const L = toRadians(b.lng - a.lng);
+  const U1 = Math.atan((1 - FLATTENING) * Math.tan(toRadians(a.lat)));
+  const U2 = Math.atan((1 - FLATTENING) * Math.tan(toRadians(b.lat)));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    const sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    );
+    if (sinSigma === 0) return 0;
+    const cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    const sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    const cosSqAlpha = 1 - sinAlpha ** 2;
+    const cos2SigmaM = cosSqAlpha === 0 ? 0 : cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha;
+    const C = (FLATTENING / 16) * cosSqAlpha * (4 + FLATTENING * (4 - 3 * cosSqAlpha));
+    const previous = lambda;
+    lambda =
+      L +
+      (1 - C) *
+        FLATTENING *
+        sinAlpha *
+        (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM ** 2)));
+
+    if (Math.abs(lambda - previous) < 1e-12) {
+      const uSq = (cosSqAlpha * (SEMI_MAJOR_AXIS ** 2 - SEMI_MINOR_AXIS ** 2)) / SEMI_MINOR_AXIS ** 2;
+      const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+      const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+      const deltaSigma =
+        B *
+        sinSigma *
+        (cos2SigmaM +
+          (B / 4) *
+            (cosSigma * (-1 + 2 * cos2SigmaM ** 2) -
+              (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma ** 2) * (-3 + 4 * cos2SigmaM ** 2)));
+      return SEMI_MINOR_AXIS * A * (sigma - deltaSigma);
+    }
+  }
+  return haversineDistance(a, b);
+}
+
+export function pathLength(points: LatLngLiteral[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) total += geodesicDistance(points[i - 1], points[i]);
+  return total;
+}
+
+export function ringPerimeter(points: LatLngLiteral[]): number {
+  return points.length < 2 ? 0 : pathLength([...points, points[0]]);
+}
+
+// Area in m² of a simple polygon, by spherical excess on the authalic sphere
+// (well under 0.1% off the ellipsoidal area at city scale)
+export function ringArea(points: LatLngLiteral[]): number {
+  if (points.length < 3) return 0;
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const p1 = points[i];
+    const p2 = points[(i + 1) % points.length];
+    sum += toRadians(p2.lng - p1.lng) * (2 + Math.sin(toRadians(p1.lat)) + Math.sin(toRadians(p2.lat)));
+  }
+  return Math.abs((sum * AUTHALIC_RADIUS ** 2) / 2);
+}
+
+export function formatDistance(locale: Locale, meters: number): string {
+  if (meters < 1000) {
+    return `${formatNumber(locale, meters, { maximumFractionDigits: meters < 100 ? 2 : 1 })} m`;
+  }
+  return `${formatNumber(locale, meters / 1000, { maximumFractionDigits: 3 })} km`;
+}
+
+// m² always (the unit of the cadastre), hectares too from 1 ha up
+export function formatArea(locale: Locale, squareMeters: number): string {
+  const m2 = `${formatNumber(locale, squareMeters, { maximumFractionDigits: squareMeters < 100 ? 2 : 0 })} m²`;
+  if (squareMeters < 10_000) return m2;
+  return `${m2} (${formatNumber(locale, squareMeters / 10_000, { maximumFractionDigits: 4 })} ha)`;
+}
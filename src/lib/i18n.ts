@@ -0,0 +1,64 @@
+import ptBR from '@/locales/pt-BR';
+import en from '@/locales/en';
+
+export const LOCALES = ['pt-BR', 'en'] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'pt-BR': 'Português (Brasil)',
+  en: 'English',
+};
+
+export type Messages = typeof ptBR;
+type CatalogKey = keyof Messages;
+// `selection.count` for the `selection.count_one` / `selection.count_other` pair
+type PluralKey = CatalogKey extends infer K
+  ? K extends `${infer Base}_one`
+    ? Base
+    : never
+  : never;
+export type MessageKey = CatalogKey | PluralKey;
+export type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<Locale, Messages> = { 'pt-BR': ptBR, en };
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+export function formatNumber(
+  locale: Locale,
+  value: number,
+  options?: Intl.NumberFormatOptions
+) {
+  return new Intl.NumberFormat(locale, options).format(value);
+}
+
+export function formatDate(
+  locale: Locale,
+  value: Date | number,
+  options?: Intl.DateTimeFormatOptions
+) {
+  return new Intl.DateTimeFormat(locale, options).format(value);
+}
+
+// Look a message up and fill in its `{name}` placeholders. Numeric params
+// are formatted for the locale; placeholders without a param are left as is
+// (e.g. the `{z}/{x}/{y}` of tile templates). A `count` param picks the
+// plural form.
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}) {
+  const catalog = catalogs[locale];
+  let resolved = key as string;
+  if (typeof params.count === 'number' && !(key in catalog)) {
+    const rule = new Intl.PluralRules(locale).select(params.count);
+    resolved = `${key}_${rule}` in catalog ? `${key}_${rule}` : `${key}_other`;
+  }
+  const message: string = catalog[resolved as CatalogKey] ?? ptBR[resolved as CatalogKey] ?? key;
+
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+}
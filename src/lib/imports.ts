@@ -0,0 +1,262 @@
+import proj4 from 'proj4';
+import shp from 'shpjs';
+import { gpx, kml } from '@tmcw/togeojson';
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import type { LatLngBoundsLiteral } from 'leaflet';
+import { UTM_22S, epsgDefinition } from '@/lib/projections';
+
+export const IMPORT_FORMATS = ['geojson', 'kml', 'gpx', 'shapefile'] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+// What the file picker offers
+export const IMPORT_ACCEPT = '.geojson,.json,.kml,.gpx,.zip';
+
+const EXTENSIONS: Record<string, ImportFormat> = {
+  geojson: 'geojson',
+  json: 'geojson',
+  kml: 'kml',
+  gpx: 'gpx',
+  zip: 'shapefile',
+};
+
+export type FileImportErrorCode = 'unsupported' | 'invalid' | 'empty' | 'projection';
+
+export class FileImportError extends Error {
+  code: FileImportErrorCode;
+
+  constructor(code: FileImportErrorCode, message: string) {
+    super(message);
+    this.name = 'FileImportError';
+    this.code = code;
+  }
+}
+
+// One layer's worth of features, in WGS84. A zip can hold several shapefiles.
+export interface ImportedData {
+  name: string;
+  format: ImportFormat;
+  data: FeatureCollection;
+}
+
+export function detectFormat(fileName: string): ImportFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSIONS[extension] ?? null;
+}
+
+function baseName(fileName: string) {
+  return fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+}
+
+// Apply `project` to every position of a geometry
+export function mapPositions(geometry: Geometry, project: (position: Position) => Position): Geometry {
+  switch (geometry.type) {
+    case 'Point':
+      return { ...geometry, coordinates: project(geometry.coordinates) };
+    case 'MultiPoint':
+    case 'LineString':
+      return { ...geometry, coordinates: geometry.coordinates.map(project) };
+    case 'MultiLineString':
+    case 'Polygon':
+      return { ...geometry, coordinates: geometry.coordinates.map((line) => line.map(project)) };
+    case 'MultiPolygon':
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map((polygon) =>
+          polygon.map((ring) => ring.map(project))
+        ),
+      };
+    case 'GeometryCollection':
+      return {
+        ...geometry,
+        geometries: geometry.geometries.map((part) => mapPositions(part, project)),
+      };
+  }
+}
+
+function firstPosition(geometry: Geometry | null): Position | undefined {
+  if (!geometry) return undefined;
+  if (geometry.type === 'GeometryCollection') {
+    return geometry.geometries.map(firstPosition).find((position) => position);
+  }
+  let coordinates: unknown = geometry.coordinates;
+  while (Array.isArray(coordinates) && Array.isArray(coordinates[0])) {
+    coordinates = coordinates[0];
+  }
+  return coordinates as Position | undefined;
+}
+
+// Coordinates that cannot be degrees are taken as metres
+function looksProjected(collection: FeatureCollection) {
+  const position = collection.features
+    .map((feature) => firstPosition(feature.geometry))
+    .find((candidate) => candidate !== undefined);
+  return position !== undefined && (Math.abs(position[0]) > 180 || Math.abs(position[1]) > 90);
+}
+
+function reproject(collection: FeatureCollection, definition: string): FeatureCollection {
+  const converter = proj4(definition, 'EPSG:4326');
+  const project = (position: Position) => [
+    ...converter.forward([position[0], position[1]]),
+    ...position.slice(2),
+  ];
+  return {
+    ...collection,
+    features: collection.features.map((feature) => ({
+      ...feature,
+      geometry: feature.geometry && mapPositions(feature.geometry, project),
+    })),
+  };
+}
+
+// Bring a collection to WGS84. GeoJSON files from QGIS and the like may name
+// their CRS (the pre-RFC 7946 `crs` member); files in metres without one are
+// assumed to be in SIRGAS 2000 / UTM 22S, the city's projection.
+function toWgs84(collection: FeatureCollection, crsName?: string): FeatureCollection {
+  // EPSG:31982, urn:ogc:def:crs:EPSG::31982 ...
+  const code = crsName?.match(/EPSG:(?:[\d.]*:)?(\d+)$/i)?.[1];
+  const definition = code ? epsgDefinition(Number(code)) : undefined;
+  if (definition) return reproject(collection, definition);
+  if (definition === null || !looksProjected(collection)) return collection;
+  if (code) throw new FileImportError('projection', `Unsupported coordinate system ${crsName}`);
+  return reproject(collection, UTM_22S);
+}
+
+const GEOMETRY_TYPES = [
+  'Point',
+  'MultiPoint',
+  'LineString',
+  'MultiLineString',
+  'Polygon',
+  'MultiPolygon',
+  'GeometryCollection',
+];
+
+// Geometries must hold what their type says; null geometries are allowed
+// and dropped later
+function isGeometry(value: unknown): value is Geometry {
+  const geometry = value as { type?: unknown; coordinates?: unknown; geometries?: unknown };
+  if (typeof geometry !== 'object' || !GEOMETRY_TYPES.includes(geometry?.type as string)) {
+    return false;
+  }
+  if (geometry.type === 'GeometryCollection') {
+    return Array.isArray(geometry.geometries) && geometry.geometries.every(isGeometry);
+  }
+  return Array.isArray(geometry.coordinates);
+}
+
+function isFeature(value: unknown): value is Feature {
+  const feature = value as { type?: unknown; geometry?: unknown };
+  return (
+    feature?.type === 'Feature' && (feature.geometry === null || isGeometry(feature.geometry))
+  );
+}
+
+// Check the structure as well as the type, so a damaged file is reported as
+// such instead of failing further on
+function asFeatureCollection(json: unknown): FeatureCollection {
+  const root = json as { type?: unknown; features?: unknown };
+  if (root?.type === 'FeatureCollection') {
+    if (!Array.isArray(root.features) || !root.features.every(isFeature)) {
+      throw new FileImportError('invalid', 'The feature collection has invalid features');
+    }
+    return json as FeatureCollection;
+  }
+  if (root?.type === 'Feature') {
+    if (!isFeature(json)) throw new FileImportError('invalid', 'The feature has an invalid geometry');
+    return { type: 'FeatureCollection', features: [json] };
+  }
+  if (isGeometry(json)) {
+    return {
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', geometry: json, properties: {} }],
+    };
+  }
+  throw new FileImportError('invalid', 'The file is not GeoJSON');
+}
+
+function parseGeoJSON(text: string): FeatureCollection {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new FileImportError('invalid', 'The file is not valid JSON');
+  }
+  const collection = asFeatureCollection(json);
+  const crs = (json as { crs?: { properties?: { name?: unknown } } }).crs?.properties?.name;
+  return toWgs84(collection, typeof crs === 'string' ? crs : undefined);
+}
+
+function parseXml(text: string) {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new FileImportError('invalid', 'The file is not valid XML');
+  }
+  return xml;
+}
+
+// Zipped shapefiles: shpjs reprojects each one with its .prj; without a
+// .prj, coordinates in metres get the same UTM 22S assumption as GeoJSON
+async function parseShapefile(buffer: ArrayBuffer, fileName: string): Promise<ImportedData[]> {
+  let result: Awaited<ReturnType<typeof shp>>;
+  try {
+    result = await shp(buffer);
+  } catch (error) {
+    throw new FileImportError('invalid', `Not a zipped shapefile: ${(error as Error).message}`);
+  }
+  return (Array.isArray(result) ? result : [result]).map((collection) => ({
+    name: collection.fileName ? baseName(collection.fileName) : baseName(fileName),
+    format: 'shapefile',
+    data: toWgs84({ type: 'FeatureCollection', features: collection.features }),
+  }));
+}
+
+// Read a dropped or picked file into WGS84 feature collections
+export async function readImportFile(file: File): Promise<ImportedData[]> {
+  const format = detectFormat(file.name);
+  if (!format) {
+    throw new FileImportError('unsupported', `Unsupported file type: ${file.name}`);
+  }
+
+  let layers: ImportedData[];
+  if (format === 'shapefile') {
+    layers = await parseShapefile(await file.arrayBuffer(), file.name);
+  } else {
+    const text = await file.text();
+    const data =
+      format === 'geojson'
+        ? parseGeoJSON(text)
+        : (format === 'kml' ? kml : gpx)(parseXml(text));
+    layers = [{ name: baseName(file.name), format, data: data as FeatureCollection }];
+  }
+
+  layers = layers
+    .map((layer) => ({
+      ...layer,
+      data: {
+        ...layer.data,
+        features: layer.data.features.filter((feature) => feature.geometry),
+      },
+    }))
+    .filter((layer) => layer.data.features.length > 0);
+  if (layers.length === 0) throw new FileImportError('empty', `${file.name} has no features`);
+  return layers;
+}
+
+// [[south, west], [north, east]] of all coordinates, or null without any
+export function collectionBounds(collection: FeatureCollection): LatLngBoundsLiteral | null {
+  let south = Infinity;
+  let west = Infinity;
+  let north = -Infinity;
+  let east = -Infinity;
+  const extend = (position: Position) => {
+    west = Math.min(west, position[0]);
+    east = Math.max(east, position[0]);
+    south = Math.min(south, position[1]);
+    north = Math.max(north, position[1]);
+    return position;
+  };
+  for (const feature of collection.features) {
+    if (feature.geometry) mapPositions(feature.geometry, extend);
+  }
+  return south <= north ? [[south, west], [north, east]] : null;
+}
@@ -0,0 +1,261 @@
+import { z } from 'zod';
+import type { LatLngBoundsLiteral, PathOptions } from 'leaflet';
+import { fetchTileJSON, type TileJSON } from '@/lib/tilejson';
+import { fieldSchema } from '@/lib/fields';
+import {
+  MapStyleError,
+  compileStyleLayer,
+  fetchMapStyle,
+  isSupportedLayer,
+  type MapStyleDocument,
+  type MapStyleLayer,
+} from '@/lib/map-style';
+
+// Location of the layer registry. Layers are added by editing this JSON
+// file (or pointing VITE_LAYERS_CONFIG_URL elsewhere), not the components.
+export const LAYERS_CONFIG_URL =
+  import.meta.env.VITE_LAYERS_CONFIG_URL ?? '/config/layers.json';
+
+const pathStyleSchema = z
+  .object({
+    stroke: z.boolean(),
+    color: z.string(),
+    weight: z.number(),
+    opacity: z.number().min(0).max(1),
+    dashArray: z.string(),
+    fill: z.boolean(),
+    fillColor: z.string(),
+    fillOpacity: z.number().min(0).max(1),
+    radius: z.number(),
+  })
+  .partial();
+
+const popupSchema = z.object({
+  enabled: z.boolean().default(true),
+  // Only show these properties, in this order. All properties when omitted.
+  fields: z.array(z.string()).optional(),
+  exclude: z.array(z.string()).default(['id']),
+});
+
+const lookupSchema = z.object({
+  // Endpoint returning a GeoJSON Feature (or FeatureCollection) for `{id}`
+  url: z.string().includes('{id}'),
+});
+
+export const viewSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  zoom: z.number(),
+});
+
+// A layer is declared either by an XYZ `url` or by a `tilejson` document;
+// anything set explicitly here wins over what the TileJSON publishes.
+const layerSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    url: z.string().min(1).optional(),
+    tilejson: z.string().min(1).optional(),
+    sourceLayers: z.array(z.string().min(1)).min(1).optional(),
+    minZoom: z.number().optional(),
+    maxZoom: z.number().optional(),
+    maxNativeZoom: z.number().optional(),
+    featureIdProperty: z.string().default('id'),
+    visible: z.boolean().default(true),
+    attribution: z.string().optional(),
+    style: pathStyleSchema.default({}),
+    popup: popupSchema.default({}),
+    // Labels, types and order of the attributes, as shown in popup and inspector
+    dictionary: z.array(fieldSchema).default([]),
+    lookup: lookupSchema.optional(),
+  })
+  .refine((layer) => layer.url || layer.tilejson, {
+    message: 'Either "url" or "tilejson" is required',
+  })
+  .refine((layer) => layer.sourceLayers || layer.tilejson, {
+    message: '"sourceLayers" is required when no "tilejson" is given',
+  });
+
+const registrySchema = z.object({
+  // Initial map view; falls back to the first TileJSON center
+  defaultView: viewSchema.optional(),
+  // Layer holding the cadastral lots (deep links, lot lookup); defaults to the first layer
+  lotLayer: z.string().optional(),
+  // MapLibre style document whose fill, line and circle layers draw the
+  // layers' source layers instead of their `style`
+  mapStyle: z.string().min(1).optional(),
+  layers: z.array(layerSchema),
+});
+
+export type LayerStyle = z.infer<typeof pathStyleSchema> & PathOptions;
+export type LayerPopupConfig = z.infer<typeof popupSchema>;
+export interface LayerView {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
+export type VectorLayerConfig = z.infer<typeof layerSchema>;
+type LayerRegistryConfig = z.infer<typeof registrySchema>;
+
+// A layer with its TileJSON (if any) merged in, ready for the map
+export interface VectorLayerDefinition
+  extends Omit<VectorLayerConfig, 'url' | 'tilejson' | 'sourceLayers' | 'minZoom' | 'maxZoom'> {
+  url: string;
+  sourceLayers: string[];
+  minZoom: number;
+  maxZoom: number;
+  bounds?: LatLngBoundsLiteral;
+  center?: LayerView;
+  // Source layer -> field name -> type/description, from TileJSON vector_layers
+  fields: Record<string, Record<string, string>>;
+  // Layers of the registry's map style that draw this layer's source layers
+  mapStyle?: MapStyleLayer[];
+}
+
+export interface LayerRegistry {
+  defaultView?: LayerView;
+  lotLayer?: string;
+  layers: VectorLayerDefinition[];
+  // Layers that could not be resolved and were left out
+  warnings: string[];
+}
+
+const DEFAULT_MIN_ZOOM = 0;
+// As far as the basemaps go: layers are overzoomed past their TileJSON
+// maxzoom, so lots can be looked at up close
+const DEFAULT_MAX_ZOOM = 22;
+
+export class LayerConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayerConfigError';
+  }
+}
+
+// Validate raw JSON against the registry schema, rejecting duplicate ids so
+// that layer state can be keyed by id everywhere else.
+export function parseLayerRegistry(json: unknown): LayerRegistryConfig {
+  const result = registrySchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new LayerConfigError(
+      `Invalid layer config at ${issue.path.join('.') || '<root>'}: ${issue.message}`
+    );
+  }
+
+  const seen = new Set<string>();
+  for (const layer of result.data.layers) {
+    if (seen.has(layer.id)) {
+      throw new LayerConfigError(`Duplicate layer id "${layer.id}"`);
+    }
+    seen.add(layer.id);
+  }
+  if (result.data.lotLayer && !seen.has(result.data.lotLayer)) {
+    throw new LayerConfigError(`Unknown lotLayer "${result.data.lotLayer}"`);
+  }
+
+  return result.data;
+}
+
+export function resolveLayer(
+  config: VectorLayerConfig,
+  tileJson?: TileJSON
+): VectorLayerDefinition {
+  const { tilejson: _tilejson, ...rest } = config;
+  const vectorLayers = tileJson?.vector_layers ?? [];
+  const [west, south, east, north] = tileJson?.bounds ?? [];
+  const [lng, lat, zoom] = tileJson?.center ?? [];
+
+  return {
+    ...rest,
+    url: config.url ?? tileJson.tiles[0],
+    sourceLayers: config.sourceLayers ?? vectorLayers.map((layer) => layer.id),
+    minZoom: config.minZoom ?? tileJson?.minzoom ?? DEFAULT_MIN_ZOOM,
+    // The published maxzoom bounds the tiles requested, not the zoom: past it
+    // the last tiles are overzoomed instead of requesting 404s
+    maxZoom: config.maxZoom ?? DEFAULT_MAX_ZOOM,
+    maxNativeZoom: config.maxNativeZoom ?? tileJson?.maxzoom,
+    attribution: config.attribution ?? tileJson?.attribution,
+    bounds: tileJson?.bounds ? [[south, west], [north, east]] : undefined,
+    center: tileJson?.center ? { latitude: lat, longitude: lng, zoom } : undefined,
+    fields: Object.fromEntries(vectorLayers.map((layer) => [layer.id, layer.fields])),
+  };
+}
+
+// Hand each layer the style layers drawing its source layers. A style layer
+// whose source is named after a registry layer only applies to that layer, so
+// one document can style several tile sets with the same source-layer names.
+// Style layers the viewer cannot draw are left out with a warning.
+export function applyMapStyle(
+  layers: VectorLayerDefinition[],
+  document: MapStyleDocument,
+  warnings: string[]
+): VectorLayerDefinition[] {
+  const ids = new Set(layers.map((layer) => layer.id));
+  const supported = document.layers.filter((styleLayer) => {
+    if (!isSupportedLayer(styleLayer)) return false;
+    try {
+      compileStyleLayer(styleLayer);
+      return true;
+    } catch (error) {
+      if (!(error instanceof MapStyleError)) throw error;
+      warnings.push(error.message);
+      return false;
+    }
+  });
+
+  return layers.map((layer) => {
+    const mapStyle = supported.filter(
+      (styleLayer) =>
+        layer.sourceLayers.includes(styleLayer['source-layer']) &&
+        (!ids.has(styleLayer.source) || styleLayer.source === layer.id)
+    );
+    return mapStyle.length > 0 ? { ...layer, mapStyle } : layer;
+  });
+}
+
+export async function fetchLayerRegistry(
+  url: string = LAYERS_CONFIG_URL
+): Promise<LayerRegistry> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new LayerConfigError(
+      `Could not load layer config from ${url} (HTTP ${response.status})`
+    );
+  }
+  const config = parseLayerRegistry(await response.json());
+
+  // One unreachable TileJSON should not take the other layers down with it
+  const warnings: string[] = [];
+  const resolved = await Promise.all(
+    config.layers.map(async (layer) => {
+      if (!layer.tilejson) return resolveLayer(layer);
+      try {
+        return resolveLayer(layer, await fetchTileJSON(layer.tilejson));
+      } catch (error) {
+        if (layer.url && layer.sourceLayers) return resolveLayer(layer);
+        warnings.push(`${layer.name}: ${(error as Error).message}`);
+        return null;
+      }
+    })
+  );
+  let layers = resolved.filter((layer): layer is VectorLayerDefinition => layer !== null);
+
+  // Without its map style the layers still draw, with their own `style`
+  if (config.mapStyle) {
+    try {
+      layers = applyMapStyle(layers, await fetchMapStyle(config.mapStyle), warnings);
+    } catch (error) {
+      if (!(error instanceof MapStyleError)) throw error;
+      warnings.push(error.message);
+    }
+  }
+
+  return {
+    defaultView:
+      (config.defaultView as LayerView) ?? layers.find((layer) => layer.center)?.center,
+    lotLayer: config.lotLayer ?? layers[0]?.id,
+    layers,
+    warnings,
+  };
+}
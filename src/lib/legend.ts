@@ -0,0 +1,250 @@
+import type { PathOptions } from 'leaflet';
+import { layerPathStyle, type MapStyleLayer, type StyleLayerType } from '@/lib/map-style';
+import { colorPathStyle, type ThematicStyle } from '@/lib/thematic';
+
+export type LegendKind = 'simple' | 'categorical' | 'graduated';
+export type LegendSymbol = 'fill' | 'line' | 'point';
+
+// One swatch: stroke and fill as the map draws them
+export interface LegendItem {
+  label: string;
+  symbol: LegendSymbol;
+  // Stroke color; none when the style has no stroke
+  color?: string;
+  opacity: number;
+  fillColor?: string;
+  fillOpacity: number;
+}
+
+// A layer's entries: one item for a simple style, one per category or class
+// of a thematic or data-driven one
+export interface LegendGroup {
+  id: string;
+  title: string;
+  kind: LegendKind;
+  // Label of the attribute categories and classes are taken from
+  field?: string;
+  items: LegendItem[];
+}
+
+// How values read in the legend: attribute labels and code descriptions
+// from the layer's dictionary, numbers in the locale
+export interface LegendLabels {
+  field: (name: string) => string;
+  value: (field: string, value: string) => string;
+  number: (value: number) => string;
+  other: string;
+}
+
+// Leaflet's defaults, for what a registry style leaves out
+const DEFAULT_COLOR = '#3388ff';
+const DEFAULT_FILL_OPACITY = 0.2;
+
+export function legendItem(label: string, symbol: LegendSymbol, style: PathOptions): LegendItem {
+  const color = style.color ?? DEFAULT_COLOR;
+  return {
+    label,
+    symbol,
+    color: style.stroke === false ? undefined : color,
+    opacity: style.opacity ?? 1,
+    fillColor: style.fill === false || symbol === 'line' ? undefined : (style.fillColor ?? color),
+    fillOpacity: style.fillOpacity ?? DEFAULT_FILL_OPACITY,
+  };
+}
+
+// Registry styles say nothing of the geometry; unfilled ones are lines
+export function pathSymbol(style: PathOptions): LegendSymbol {
+  return style.fill === false ? 'line' : 'fill';
+}
+
+export function simpleLegend(
+  id: string,
+  title: string,
+  style: PathOptions,
+  symbol: LegendSymbol = pathSymbol(style)
+): LegendGroup {
+  return { id, title, kind: 'simple', items: [legendItem(title, symbol, style)] };
+}
+
+// Categories or classes of a thematic style, drawn over the layer's own style
+export function thematicLegend(
+  id: string,
+  title: string,
+  style: ThematicStyle,
+  base: PathOptions,
+  labels: LegendLabels,
+  symbol: LegendSymbol = pathSymbol(base)
+): LegendGroup {
+  const swatch = (label: string, color: string) =>
+    legendItem(label, symbol, colorPathStyle(base, color));
+  const items =
+    style.type === 'categorical'
+      ? [
+          ...style.categories.map(({ value, color }) =>
+            swatch(labels.value(style.field, value), color)
+          ),
+          swatch(labels.other, style.otherColor),
+        ]
+      : style.colors.map((color, index) =>
+          swatch(
+            `${labels.number(style.breaks[index])} – ${labels.number(style.breaks[index + 1])}`,
+            color
+          )
+        );
+  return { id, title, kind: style.type, field: labels.field(style.field), items };
+}
+
+const LAYER_SYMBOLS: Record<StyleLayerType, LegendSymbol> = {
+  fill: 'fill',
+  line: 'line',
+  circle: 'point',
+};
+
+const COLOR_PROPERTIES: Record<StyleLayerType, string> = {
+  fill: 'fill-color',
+  line: 'line-color',
+  circle: 'circle-color',
+};
+
+interface StyleClass {
+  label: string;
+  // A value of the attribute falling in the class, to paint its swatch with
+  value: unknown;
+}
+
+interface StyleClasses {
+  kind: Exclude<LegendKind, 'simple'>;
+  field: string;
+  classes: StyleClass[];
+}
+
+function getterField(input: unknown): string | null {
+  return Array.isArray(input) && input[0] === 'get' && typeof input[1] === 'string'
+    ? input[1]
+    : null;
+}
+
+// Classes of a color driven by an attribute through `match`, `step`,
+// `interpolate` or a legacy property function; null for anything else
+function styleClasses(value: unknown, labels: LegendLabels): StyleClasses | null {
+  let field: string | null;
+  let kind: StyleClasses['kind'];
+  let pairs: [unknown, unknown][];
+  let type: string;
+
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const fn = value as { property?: unknown; type?: unknown; stops?: unknown };
+    if (typeof fn.property !== 'string' || !Array.isArray(fn.stops)) return null;
+    field = fn.property;
+    pairs = fn.stops as [unknown, unknown][];
+    type = fn.type === 'categorical' ? 'match' : fn.type === 'interval' ? 'step' : 'interpolate';
+  } else if (Array.isArray(value)) {
+    [type] = value;
+    if (type === 'match') {
+      field = getterField(value[1]);
+      pairs = [];
+      for (let i = 2; i < value.length - 1; i += 2) pairs.push([value[i], value[i + 1]]);
+    } else if (type === 'step') {
+      field = getterField(value[1]);
+      pairs = [[-Infinity, value[2]]];
+      for (let i = 3; i < value.length - 1; i += 2) pairs.push([value[i], value[i + 1]]);
+    } else if (type === 'interpolate') {
+      field = getterField(value[2]);
+      pairs = [];
+      for (let i = 3; i < value.length - 1; i += 2) pairs.push([value[i], value[i + 1]]);
+    } else {
+      return null;
+    }
+  } else {
+    return null;
+  }
+  if (!field || pairs.length === 0) return null;
+
+  if (type === 'match') {
+    kind = 'categorical';
+    const classes = pairs.map(([label]) => {
+      const values = Array.isArray(label) ? label : [label];
+      return {
+        label: values.map((item) => labels.value(field, String(item))).join(', '),
+        value: values[0],
+      };
+    });
+    // Features matching no label get the fallback; a legacy function without
+    // a default leaves them unstyled
+    const hasFallback = Array.isArray(value) || 'default' in (value as object);
+    return {
+      kind,
+      field,
+      classes: hasFallback ? [...classes, { label: labels.other, value: null }] : classes,
+    };
+  }
+
+  const stops = pairs.map(([stop]) => Number(stop));
+  kind = 'graduated';
+  if (type === 'step') {
+    // The first output holds below the first stop
+    const classes = stops.map((stop, index) => {
+      const next = stops[index + 1];
+      const label =
+        index === 0
+          ? `< ${labels.number(next ?? stop)}`
+          : next === undefined
+            ? `≥ ${labels.number(stop)}`
+            : `${labels.number(stop)} – ${labels.number(next)}`;
+      return { label, value: index === 0 ? (next ?? 0) - 1 : stop };
+    });
+    return { kind, field, classes: stops.length > 1 ? classes : [] };
+  }
+  // Interpolated colors: a swatch at each stop
+  return { kind, field, classes: stops.map((stop) => ({ label: labels.number(stop), value: stop })) };
+}
+
+function inZoomRange(layer: MapStyleLayer, zoom: number) {
+  return zoom >= (layer.minzoom ?? 0) && zoom < (layer.maxzoom ?? Infinity);
+}
+
+// What the map style layers drawing a layer paint at this zoom, merged the
+// way the map merges them; null when none draws at this zoom
+export function mapStyleBase(layers: MapStyleLayer[], zoom: number): PathOptions | null {
+  const active = layers.filter((layer) => inZoomRange(layer, zoom));
+  if (active.length === 0) return null;
+  return active.reduce<PathOptions>(
+    (merged, layer) => ({ ...merged, ...layerPathStyle(layer, {}, zoom) }),
+    { stroke: false, fill: false }
+  );
+}
+
+// Entries of a layer drawn by map style layers: the classes of the first
+// attribute-driven color, over what the other layers paint, or a single
+// entry for constant colors. Filters are not reflected.
+export function mapStyleLegend(
+  id: string,
+  title: string,
+  layers: MapStyleLayer[],
+  zoom: number,
+  labels: LegendLabels
+): LegendGroup | null {
+  const active = layers.filter((layer) => inZoomRange(layer, zoom));
+  const base = mapStyleBase(active, zoom);
+  if (!base) return null;
+
+  for (const layer of active) {
+    const type = layer.type as StyleLayerType;
+    const classified = styleClasses(layer.paint?.[COLOR_PROPERTIES[type]], labels);
+    if (!classified || classified.classes.length === 0) continue;
+    const symbol = LAYER_SYMBOLS[type];
+    return {
+      id,
+      title,
+      kind: classified.kind,
+      field: labels.field(classified.field),
+      items: classified.classes.map(({ label, value }) =>
+        legendItem(label, symbol, {
+          ...base,
+          ...layerPathStyle(layer, { [classified.field]: value }, zoom),
+        })
+      ),
+    };
+  }
+  return simpleLegend(id, title, base, LAYER_SYMBOLS[active[0].type as StyleLayerType]);
+}
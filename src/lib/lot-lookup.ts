@@ -0,0 +1,37 @@
+import L from 'leaflet';
+import type { Feature, FeatureCollection } from 'geojson';
+import type { FeatureProperties } from '@/lib/vector-grids';
+
+export interface LotMatch {
+  id: string;
+  properties: FeatureProperties;
+  bounds: L.LatLngBounds;
+}
+
+export class LotLookupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LotLookupError';
+  }
+}
+
+// Ask the configured lookup endpoint for a lot. A 404 or an empty result
+// means the lot does not exist; anything else unexpected is an error.
+export async function fetchLot(urlTemplate: string, id: string): Promise<LotMatch | null> {
+  const url = urlTemplate.replace('{id}', encodeURIComponent(id));
+  const response = await fetch(url);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new LotLookupError(`Lot lookup failed (HTTP ${response.status})`);
+  }
+
+  const json = (await response.json()) as Feature | FeatureCollection;
+  const feature = json.type === 'FeatureCollection' ? json.features[0] : json;
+  if (!feature?.geometry) return null;
+
+  return {
+    id,
+    properties: (feature.properties ?? {}) as FeatureProperties,
+    bounds: L.geoJSON(feature).getBounds(),
+  };
+}
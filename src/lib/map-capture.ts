@@ -0,0 +1,189 @@
+import L from 'leaflet';
+import { metersPerPixel } from '@/lib/scale';
+
+// Longest a print waits for tiles before drawing what it has
+const TILE_LOAD_TIMEOUT = 30_000;
+// Tiles fade in after loading (Leaflet's fadeAnimation takes 200 ms)
+const TILE_FADE_DELAY = 250;
+
+export class MapCaptureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapCaptureError';
+  }
+}
+
+function zIndexOf(element: Element | null) {
+  if (!element) return 0;
+  const value = parseInt(getComputedStyle(element).zIndex, 10);
+  return isNaN(value) ? 0 : value;
+}
+
+// Opacity and CSS filters (grayscale basemaps) an element inherits on screen
+function inheritedLook(element: Element, container: HTMLElement) {
+  let opacity = 1;
+  const filters: string[] = [];
+  for (let node: Element | null = element; node && node !== container; node = node.parentElement) {
+    const style = getComputedStyle(node);
+    opacity *= parseFloat(style.opacity);
+    if (style.filter && style.filter !== 'none') filters.push(style.filter);
+  }
+  return { opacity, filter: filters.join(' ') || 'none' };
+}
+
+function loadSvg(svg: SVGSVGElement): Promise<HTMLImageElement> {
+  // The renderer positions its element with a CSS transform, which the
+  // image would apply again
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.removeAttribute('style');
+  const image = new Image();
+  const xml = new XMLSerializer().serializeToString(copy);
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(xml)}`;
+  return image.decode().then(() => image);
+}
+
+// Images from other servers loaded without CORS (custom basemaps whose
+// server does not send the headers) would taint the canvas, after which it
+// cannot be saved at all
+function wouldTaint(element: Element) {
+  if (!(element instanceof HTMLImageElement) || element.crossOrigin !== null) return false;
+  const url = new URL(element.src, window.location.href);
+  return !['data:', 'blob:'].includes(url.protocol) && url.origin !== window.location.origin;
+}
+
+export interface MapDrawing {
+  canvas: HTMLCanvasElement;
+  // Tiles left out because they would taint the canvas
+  skippedImages: number;
+}
+
+// Draw what the map shows into a canvas of its size: raster tiles, canvas
+// vector tiles and SVG overlays, in stacking order. HTML markers, tooltips
+// and controls are left out, and so are tiles that would taint the canvas.
+export async function drawMapToCanvas(container: HTMLElement): Promise<MapDrawing> {
+  const frame = container.getBoundingClientRect();
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(frame.width);
+  canvas.height = Math.round(frame.height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new MapCaptureError('Canvas is not available');
+
+  const background = getComputedStyle(container).backgroundColor;
+  context.fillStyle = background === 'rgba(0, 0, 0, 0)' ? '#fff' : background;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  const panes = Array.from(
+    container.querySelectorAll<HTMLElement>('.leaflet-map-pane > .leaflet-pane')
+  ).sort((a, b) => zIndexOf(a) - zIndexOf(b));
+
+  let skippedImages = 0;
+  for (const pane of panes) {
+    // Grid layers stack by their container's z-index within a pane
+    const elements = Array.from(
+      pane.querySelectorAll<HTMLImageElement | HTMLCanvasElement | SVGSVGElement>(
+        'img.leaflet-tile-loaded, canvas, svg'
+      )
+    )
+      .map((element, index) => ({ element, index, z: zIndexOf(element.closest('.leaflet-layer')) }))
+      .sort((a, b) => a.z - b.z || a.index - b.index);
+
+    for (const { element } of elements) {
+      const rect = element.getBoundingClientRect();
+      if (
+        rect.width === 0 ||
+        rect.height === 0 ||
+        rect.right < frame.left ||
+        rect.left > frame.right ||
+        rect.bottom < frame.top ||
+        rect.top > frame.bottom
+      ) {
+        continue;
+      }
+      const { opacity, filter } = inheritedLook(element, container);
+      if (opacity === 0) continue;
+      if (wouldTaint(element)) {
+        skippedImages++;
+        continue;
+      }
+      const image = element instanceof SVGSVGElement ? await loadSvg(element) : element;
+      context.save();
+      context.globalAlpha = opacity;
+      context.filter = filter;
+      context.drawImage(
+        image,
+        rect.left - frame.left,
+        rect.top - frame.top,
+        rect.width,
+        rect.height
+      );
+      context.restore();
+    }
+  }
+  return { canvas, skippedImages };
+}
+
+function nextFrame() {
+  return new Promise((resolve) => requestAnimationFrame(resolve));
+}
+
+// Resolve once every tile layer has loaded its tiles, or after the timeout
+async function tilesLoaded(map: L.Map) {
+  await nextFrame();
+  const pending: L.GridLayer[] = [];
+  map.eachLayer((layer) => {
+    if (layer instanceof L.GridLayer && layer.isLoading()) pending.push(layer);
+  });
+  await Promise.race([
+    Promise.all(pending.map((layer) => new Promise((resolve) => layer.once('load', resolve)))),
+    new Promise((resolve) => setTimeout(resolve, TILE_LOAD_TIMEOUT)),
+  ]);
+  await new Promise((resolve) => setTimeout(resolve, TILE_FADE_DELAY));
+}
+
+export interface MapRender extends MapDrawing {
+  // Zoom drawn at, once clamped
+  zoom: number;
+  // Ground distance covered by one canvas pixel at the center
+  metersPerPixel: number;
+}
+
+// Render the map at a given pixel size and zoom around its current center.
+// The map is resized in place for the duration and put back. Zooms beyond
+// the map's range are clamped, which the returned resolution reflects.
+export async function renderMap(
+  map: L.Map,
+  width: number,
+  height: number,
+  renderZoom: number
+): Promise<MapRender> {
+  const container = map.getContainer();
+  const center = map.getCenter();
+  const zoom = map.getZoom();
+  const style = container.style.cssText;
+  // The page's zoom must not be snapped, or the scale would be off
+  const { zoomSnap } = map.options;
+
+  try {
+    map.options.zoomSnap = 0;
+    Object.assign(container.style, {
+      position: 'absolute',
+      top: '0',
+      left: '0',
+      width: `${width}px`,
+      height: `${height}px`,
+    });
+    map.invalidateSize({ pan: false });
+    map.setView(center, renderZoom, { animate: false });
+    await tilesLoaded(map);
+    return {
+      ...(await drawMapToCanvas(container)),
+      zoom: map.getZoom(),
+      metersPerPixel: metersPerPixel(center.lat, map.getZoom()),
+    };
+  } finally {
+    map.options.zoomSnap = zoomSnap;
+    container.style.cssText = style;
+    map.invalidateSize({ pan: false });
+    map.setView(center, zoom, { animate: false });
+  }
+}
@@ -0,0 +1,28 @@
+import type L from 'leaflet';
+
+// Overlays get a pane each, between the tile pane (200, the basemap) and the
+// overlay pane (400, measurements and annotations), so vector tile layers and
+// imported files stack together in the layer manager's order
+const PANE_BASE_Z_INDEX = 300;
+
+export function overlayPaneName(layerId: string) {
+  return `overlay-${layerId}`;
+}
+
+export function overlayPane(map: L.Map, layerId: string): HTMLElement {
+  const name = overlayPaneName(layerId);
+  return map.getPane(name) ?? map.createPane(name);
+}
+
+// Leaflet has no API to remove a pane; it goes by hand with the layer
+export function removeOverlayPane(map: L.Map, layerId: string) {
+  const name = overlayPaneName(layerId);
+  map.getPane(name)?.remove();
+  delete map.getPanes()[name];
+}
+
+export function stackOverlayPane(map: L.Map, layerId: string, zIndex: number, opacity = 1) {
+  const pane = overlayPane(map, layerId);
+  pane.style.zIndex = String(PANE_BASE_Z_INDEX + zIndex);
+  pane.style.opacity = String(opacity);
+}
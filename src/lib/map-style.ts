@@ -0,0 +1,721 @@
+import { z } from 'zod';
+import type { PathOptions } from 'leaflet';
+import type { FeatureProperties } from '@/lib/vector-grids';
+
+// Subset of the MapLibre (Mapbox GL) style spec the viewer translates into
+// vectorGrid styles: `fill`, `line` and `circle` layers with their filters,
+// zoom ranges and paint properties. Other layer types (labels, backgrounds,
+// rasters) are left to the basemaps and skipped.
+export const SUPPORTED_LAYER_TYPES = ['fill', 'line', 'circle'] as const;
+export type StyleLayerType = (typeof SUPPORTED_LAYER_TYPES)[number];
+
+const styleLayerSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  source: z.string().optional(),
+  'source-layer': z.string().optional(),
+  minzoom: z.number().optional(),
+  maxzoom: z.number().optional(),
+  filter: z.unknown().optional(),
+  layout: z.record(z.unknown()).optional(),
+  paint: z.record(z.unknown()).optional(),
+});
+
+const mapStyleSchema = z.object({
+  version: z.literal(8),
+  name: z.string().optional(),
+  layers: z.array(styleLayerSchema),
+});
+
+export interface MapStyleLayer {
+  id: string;
+  type: string;
+  source?: string;
+  'source-layer'?: string;
+  minzoom?: number;
+  maxzoom?: number;
+  filter?: unknown;
+  layout?: Record<string, unknown>;
+  paint?: Record<string, unknown>;
+}
+
+export interface MapStyleDocument {
+  name?: string;
+  layers: MapStyleLayer[];
+}
+
+export class MapStyleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapStyleError';
+  }
+}
+
+// Geometry types as `geometry-type` and legacy `$type` filters name them
+type GeometryType = 'Point' | 'LineString' | 'Polygon';
+
+// vectorGrid hands style functions only the properties and the tile zoom, so
+// `geometry-type` is taken from the layer type: in MapLibre a fill layer only
+// draws polygons and a circle layer points, while a line layer strokes lines
+// and polygon outlines alike. A line layer's filter is tried with both, and
+// the first type it accepts is the one its paint sees.
+const LAYER_GEOMETRY: Record<StyleLayerType, GeometryType[]> = {
+  fill: ['Polygon'],
+  line: ['LineString', 'Polygon'],
+  circle: ['Point'],
+};
+
+interface EvaluationContext {
+  properties: FeatureProperties;
+  zoom: number;
+  geometryType: GeometryType;
+}
+
+type Evaluator = (context: EvaluationContext) => unknown;
+
+type Rgba = [number, number, number, number];
+
+let colorContext: CanvasRenderingContext2D | null | undefined;
+const colorCache = new Map<string, Rgba | null>();
+
+// Any CSS color (names, hex, rgb(), hsl()) as RGBA, read back from a canvas
+// context that normalizes it to `#rrggbb` or `rgba(r, g, b, a)`
+function parseColor(value: unknown): Rgba | null {
+  if (typeof value !== 'string') return null;
+  if (colorCache.has(value)) return colorCache.get(value);
+  colorContext ??= document.createElement('canvas').getContext('2d');
+  let rgba: Rgba | null = null;
+  if (colorContext) {
+    colorContext.fillStyle = '#010203';
+    colorContext.fillStyle = value;
+    const normalized = String(colorContext.fillStyle);
+    if (normalized !== '#010203' || value.trim().toLowerCase() === '#010203') {
+      const hex = normalized.match(/^#([0-9a-f]{6})$/i);
+      const channels = normalized.match(/[\d.]+/g)?.map(Number);
+      if (hex) {
+        const number = parseInt(hex[1], 16);
+        rgba = [(number >> 16) & 255, (number >> 8) & 255, number & 255, 1];
+      } else if (channels?.length === 4) {
+        rgba = channels as Rgba;
+      }
+    }
+  }
+  colorCache.set(value, rgba);
+  return rgba;
+}
+
+function formatColor([r, g, b, a]: Rgba) {
+  return `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${Number(a.toFixed(3))})`;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function compare(operator: string, a: unknown, b: unknown) {
+  if (operator === '==') return a === b;
+  if (operator === '!=') return a !== b;
+  // Ordering only holds between two numbers or two strings
+  if (!((isNumber(a) && isNumber(b)) || (typeof a === 'string' && typeof b === 'string'))) {
+    return false;
+  }
+  if (operator === '<') return a < b;
+  if (operator === '<=') return a <= b;
+  if (operator === '>') return a > b;
+  return a >= b;
+}
+
+// Position of `input` between two stops, eased for exponential interpolation
+function interpolationFactor(base: number, input: number, lower: number, upper: number) {
+  const range = upper - lower;
+  if (range === 0) return 0;
+  const progress = input - lower;
+  if (base === 1) return progress / range;
+  return (Math.pow(base, progress) - 1) / (Math.pow(base, range) - 1);
+}
+
+function interpolateValues(from: unknown, to: unknown, t: number): unknown {
+  if (isNumber(from) && isNumber(to)) return from + (to - from) * t;
+  if (Array.isArray(from) && Array.isArray(to) && from.length === to.length) {
+    return from.map((value, i) => interpolateValues(value, to[i], t));
+  }
+  const fromColor = parseColor(from);
+  const toColor = parseColor(to);
+  if (fromColor && toColor) {
+    return formatColor(fromColor.map((channel, i) => channel + (toColor[i] - channel) * t) as Rgba);
+  }
+  return t < 1 ? from : to;
+}
+
+function expectArguments(expression: unknown[], min: number) {
+  if (expression.length - 1 < min) {
+    throw new MapStyleError(
+      `"${expression[0]}" expects at least ${min} arguments, got ${expression.length - 1}`
+    );
+  }
+}
+
+// Stops of `step` and `interpolate`: [input, output, input, output, ...],
+// inputs as literal numbers in ascending order
+function compileStops(values: unknown[], operator: string) {
+  if (values.length < 2 || values.length % 2 !== 0) {
+    throw new MapStyleError(`"${operator}" expects pairs of stop inputs and outputs`);
+  }
+  const stops: { input: number; output: Evaluator }[] = [];
+  for (let i = 0; i < values.length; i += 2) {
+    const input = values[i];
+    if (!isNumber(input) || (stops.length > 0 && input <= stops[stops.length - 1].input)) {
+      throw new MapStyleError(`"${operator}" stop inputs must be increasing numbers`);
+    }
+    stops.push({ input, output: compileExpression(values[i + 1]) });
+  }
+  return stops;
+}
+
+function interpolationBase(type: unknown) {
+  if (!Array.isArray(type)) throw new MapStyleError('"interpolate" expects an interpolation type');
+  if (type[0] === 'linear') return 1;
+  if (type[0] === 'exponential' && isNumber(type[1])) return type[1];
+  // No easing curves on the map: cubic-bezier is drawn as linear
+  if (type[0] === 'cubic-bezier') return 1;
+  throw new MapStyleError(`Unsupported interpolation type ${JSON.stringify(type)}`);
+}
+
+// Legacy `{ "stops": [...] }` functions, as older styles and style editors
+// still write them, rewritten as the equivalent expression
+function convertFunction(fn: Record<string, unknown>): unknown {
+  const stops = fn.stops as unknown[][] | undefined;
+  const input = typeof fn.property === 'string' ? ['get', fn.property] : ['zoom'];
+  if (fn.type === 'identity') {
+    return fn.default === undefined ? input : ['coalesce', input, fn.default];
+  }
+  if (!Array.isArray(stops) || stops.some((stop) => !Array.isArray(stop) || stop.length !== 2)) {
+    throw new MapStyleError('Property functions need "stops" of [input, output] pairs');
+  }
+  if (stops.some(([stopInput]) => typeof stopInput === 'object' && stopInput !== null)) {
+    throw new MapStyleError('Zoom-and-property functions are not supported');
+  }
+  const outputs = stops.map(([, output]) => ['literal', output]);
+  const interpolatable = stops.every(
+    ([, output]) => isNumber(output) || parseColor(output) || Array.isArray(output)
+  );
+  const type = fn.type ?? (interpolatable ? 'exponential' : 'interval');
+  const fallback = fn.default === undefined ? null : ['literal', fn.default];
+
+  if (type === 'categorical') {
+    return ['match', input, ...stops.flatMap(([label], i) => [label, outputs[i]]), fallback];
+  }
+  if (type === 'interval') {
+    return ['step', input, outputs[0], ...stops.slice(1).flatMap(([stop], i) => [stop, outputs[i + 1]])];
+  }
+  if (type === 'exponential') {
+    return [
+      'interpolate',
+      ['exponential', isNumber(fn.base) ? fn.base : 1],
+      input,
+      ...stops.flatMap(([stop], i) => [stop, outputs[i]]),
+    ];
+  }
+  throw new MapStyleError(`Unsupported function type "${String(type)}"`);
+}
+
+// Turn an expression (or a constant) into a function of the feature. Only
+// the operators the viewer implements compile; anything else is an error, so
+// a style is rejected up front rather than drawn wrong.
+export function compileExpression(expression: unknown): Evaluator {
+  if (
+    expression !== null &&
+    typeof expression === 'object' &&
+    !Array.isArray(expression) &&
+    'stops' in expression
+  ) {
+    return compileExpression(convertFunction(expression as Record<string, unknown>));
+  }
+  // Constant arrays, e.g. `line-dasharray: [2, 1]`, start with a non-string
+  if (!Array.isArray(expression) || typeof expression[0] !== 'string') {
+    return () => expression;
+  }
+
+  const [operator, ...args] = expression as [string, ...unknown[]];
+  switch (operator) {
+    case 'literal': {
+      const value = args[0];
+      return () => value;
+    }
+    case 'get': {
+      expectArguments(expression, 1);
+      const name = args[0];
+      if (typeof name !== 'string') throw new MapStyleError('"get" expects a property name');
+      return ({ properties }) => properties[name] ?? null;
+    }
+    case 'has': {
+      expectArguments(expression, 1);
+      const name = args[0];
+      if (typeof name !== 'string') throw new MapStyleError('"has" expects a property name');
+      return ({ properties }) => name in properties;
+    }
+    case 'zoom':
+      return ({ zoom }) => zoom;
+    case 'geometry-type':
+      return ({ geometryType }) => geometryType;
+    case '==':
+    case '!=':
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      expectArguments(expression, 2);
+      const [a, b] = args.map(compileExpression);
+      return (context) => compare(operator, a(context), b(context));
+    }
+    case '!': {
+      expectArguments(expression, 1);
+      const value = compileExpression(args[0]);
+      return (context) => !value(context);
+    }
+    case 'all': {
+      const conditions = args.map(compileExpression);
+      return (context) => conditions.every((condition) => condition(context) === true);
+    }
+    case 'any': {
+      const conditions = args.map(compileExpression);
+      return (context) => conditions.some((condition) => condition(context) === true);
+    }
+    case 'in': {
+      expectArguments(expression, 2);
+      const [needle, haystack] = args.map(compileExpression);
+      return (context) => {
+        const value = needle(context);
+        const list = haystack(context);
+        if (typeof list === 'string') return typeof value === 'string' && list.includes(value);
+        return Array.isArray(list) && list.includes(value);
+      };
+    }
+    case 'case': {
+      if (args.length < 3 || args.length % 2 !== 1) {
+        throw new MapStyleError('"case" expects condition/output pairs and a fallback');
+      }
+      const branches: [Evaluator, Evaluator][] = [];
+      for (let i = 0; i < args.length - 1; i += 2) {
+        branches.push([compileExpression(args[i]), compileExpression(args[i + 1])]);
+      }
+      const fallback = compileExpression(args[args.length - 1]);
+      return (context) =>
+        (branches.find(([condition]) => condition(context) === true)?.[1] ?? fallback)(context);
+    }
+    case 'match': {
+      if (args.length < 4 || args.length % 2 !== 0) {
+        throw new MapStyleError('"match" expects an input, label/output pairs and a fallback');
+      }
+      const input = compileExpression(args[0]);
+      const outputs = new Map<unknown, Evaluator>();
+      for (let i = 1; i < args.length - 1; i += 2) {
+        const output = compileExpression(args[i + 1]);
+        const labels = Array.isArray(args[i]) ? (args[i] as unknown[]) : [args[i]];
+        for (const label of labels) {
+          if (!outputs.has(label)) outputs.set(label, output);
+        }
+      }
+      const fallback = compileExpression(args[args.length - 1]);
+      return (context) => (outputs.get(input(context)) ?? fallback)(context);
+    }
+    case 'coalesce': {
+      const values = args.map(compileExpression);
+      return (context) => {
+        for (const value of values) {
+          const result = value(context);
+          if (result !== null && result !== undefined) return result;
+        }
+        return null;
+      };
+    }
+    case 'step': {
+      expectArguments(expression, 2);
+      const input = compileExpression(args[0]);
+      const first = compileExpression(args[1]);
+      const stops = args.length > 2 ? compileStops(args.slice(2), operator) : [];
+      return (context) => {
+        const value = input(context);
+        if (!isNumber(value)) return null;
+        let output = first;
+        for (const stop of stops) {
+          if (value < stop.input) break;
+          output = stop.output;
+        }
+        return output(context);
+      };
+    }
+    case 'interpolate': {
+      expectArguments(expression, 4);
+      const base = interpolationBase(args[0]);
+      const input = compileExpression(args[1]);
+      const stops = compileStops(args.slice(2), operator);
+      return (context) => {
+        const value = input(context);
+        if (!isNumber(value)) return null;
+        if (value <= stops[0].input) return stops[0].output(context);
+        const last = stops[stops.length - 1];
+        if (value >= last.input) return last.output(context);
+        const upper = stops.findIndex((stop) => stop.input > value);
+        const lower = stops[upper - 1];
+        const t = interpolationFactor(base, value, lower.input, stops[upper].input);
+        return interpolateValues(lower.output(context), stops[upper].output(context), t);
+      };
+    }
+    case 'to-number': {
+      const values = args.map(compileExpression);
+      return (context) => {
+        for (const value of values) {
+          const raw = value(context);
+          const number = Number(raw);
+          if (raw !== null && raw !== '' && Number.isFinite(number)) return number;
+        }
+        return 0;
+      };
+    }
+    case 'to-string': {
+      expectArguments(expression, 1);
+      const value = compileExpression(args[0]);
+      return (context) => {
+        const result = value(context);
+        return result === null || result === undefined ? '' : String(result);
+      };
+    }
+    case 'to-boolean': {
+      expectArguments(expression, 1);
+      const value = compileExpression(args[0]);
+      return (context) => Boolean(value(context));
+    }
+    case 'to-color':
+    case 'number':
+    case 'string':
+    case 'boolean': {
+      expectArguments(expression, 1);
+      const values = args.map(compileExpression);
+      const accepts = (value: unknown) =>
+        operator === 'to-color' ? parseColor(value) !== null : typeof value === operator;
+      return (context) => {
+        for (const value of values) {
+          const result = value(context);
+          if (accepts(result)) return result;
+        }
+        return null;
+      };
+    }
+    case 'rgb':
+    case 'rgba': {
+      expectArguments(expression, 3);
+      const channels = args.map(compileExpression);
+      return (context) => {
+        const [r, g, b, a = 1] = channels.map((channel) => channel(context));
+        return [r, g, b, a].every(isNumber) ? formatColor([r, g, b, a] as Rgba) : null;
+      };
+    }
+    case '+':
+    case '*': {
+      const values = args.map(compileExpression);
+      return (context) => {
+        const numbers = values.map((value) => value(context));
+        if (!numbers.every(isNumber)) return null;
+        return operator === '+'
+          ? numbers.reduce((sum, value) => sum + value, 0)
+          : numbers.reduce((product, value) => product * value, 1);
+      };
+    }
+    case '-':
+    case '/': {
+      expectArguments(expression, operator === '-' ? 1 : 2);
+      const [a, b] = args.map(compileExpression);
+      return (context) => {
+        const x = a(context);
+        const y = b ? b(context) : undefined;
+        if (operator === '-' && y === undefined) return isNumber(x) ? -x : null;
+        if (!isNumber(x) || !isNumber(y)) return null;
+        return operator === '-' ? x - y : x / y;
+      };
+    }
+    case 'concat': {
+      const values = args.map(compileExpression);
+      return (context) => values.map((value) => value(context) ?? '').join('');
+    }
+    default:
+      throw new MapStyleError(`Unsupported expression "${operator}"`);
+  }
+}
+
+// Legacy filters (`["==", "uso", "R"]`) tell themselves apart from
+// expressions by their bare property names, as in MapLibre
+function isExpressionFilter(filter: unknown): boolean {
+  if (filter === true || filter === false) return true;
+  if (!Array.isArray(filter) || filter.length === 0) return false;
+  switch (filter[0]) {
+    case 'has':
+      return filter.length >= 2 && filter[1] !== '$id' && filter[1] !== '$type';
+    case 'in':
+      return filter.length >= 3 && (typeof filter[1] !== 'string' || Array.isArray(filter[2]));
+    case '!in':
+    case '!has':
+    case 'none':
+      return false;
+    case '==':
+    case '!=':
+    case '>':
+    case '>=':
+    case '<':
+    case '<=':
+      return filter.length !== 3 || Array.isArray(filter[1]) || Array.isArray(filter[2]);
+    case 'any':
+    case 'all':
+      return filter.slice(1).every((part) => typeof part === 'boolean' || isExpressionFilter(part));
+    default:
+      return true;
+  }
+}
+
+function legacyGetter(key: unknown) {
+  if (key === '$type') return ['geometry-type'];
+  if (key === '$id') throw new MapStyleError('"$id" filters are not supported');
+  return ['get', key];
+}
+
+function convertLegacyFilter(filter: unknown[]): unknown {
+  const [operator, key, ...values] = filter;
+  switch (operator) {
+    case 'all':
+    case 'any':
+      return [operator, ...filter.slice(1).map(convertFilter)];
+    case 'none':
+      return ['!', ['any', ...filter.slice(1).map(convertFilter)]];
+    case 'has':
+      return key === '$type' ? true : ['has', key];
+    case '!has':
+      return key === '$type' ? false : ['!', ['has', key]];
+    case 'in':
+      return ['in', legacyGetter(key), ['literal', values]];
+    case '!in':
+      return ['!', ['in', legacyGetter(key), ['literal', values]]];
+    case '==':
+    case '!=':
+    case '<':
+    case '<=':
+    case '>':
+    case '>=':
+      return [operator, legacyGetter(key), values[0]];
+    default:
+      throw new MapStyleError(`Unsupported filter "${String(operator)}"`);
+  }
+}
+
+function convertFilter(filter: unknown): unknown {
+  return isExpressionFilter(filter) ? filter : convertLegacyFilter(filter as unknown[]);
+}
+
+export interface CompiledStyleLayer {
+  id: string;
+  type: StyleLayerType;
+  sourceLayer: string;
+  // Path options of a feature, or null when the layer does not draw it
+  style: (properties: FeatureProperties, zoom: number) => PathOptions | null;
+}
+
+function compilePaint(paint: Record<string, unknown>, defaults: Record<string, unknown>) {
+  const compiled = Object.fromEntries(
+    Object.keys(defaults).map((name) => [
+      name,
+      paint[name] === undefined ? () => defaults[name] : compileExpression(paint[name]),
+    ])
+  );
+  return (context: EvaluationContext) =>
+    Object.fromEntries(
+      Object.keys(defaults).map((name) => [name, compiled[name](context) ?? defaults[name]])
+    ) as Record<string, unknown>;
+}
+
+function cssColor(value: unknown) {
+  return typeof value === 'string' ? value : '#000000';
+}
+
+function toNumber(value: unknown, fallback: number) {
+  return isNumber(value) ? value : fallback;
+}
+
+// Paint properties of each layer type, with the spec's defaults, and how they
+// map onto Leaflet path options. Unlisted properties (patterns, translations,
+// blur, offsets) are ignored.
+const PAINT_DEFAULTS: Record<StyleLayerType, Record<string, unknown>> = {
+  fill: { 'fill-color': '#000000', 'fill-opacity': 1, 'fill-outline-color': null },
+  line: {
+    'line-color': '#000000',
+    'line-width': 1,
+    'line-opacity': 1,
+    'line-dasharray': null,
+  },
+  circle: {
+    'circle-color': '#000000',
+    'circle-radius': 5,
+    'circle-opacity': 1,
+    'circle-stroke-color': '#000000',
+    'circle-stroke-width': 0,
+    'circle-stroke-opacity': 1,
+  },
+};
+
+function pathOptions(
+  type: StyleLayerType,
+  paint: Record<string, unknown>,
+  layout: Record<string, unknown>
+): PathOptions {
+  if (type === 'fill') {
+    const outline = paint['fill-outline-color'];
+    const opacity = toNumber(paint['fill-opacity'], 1);
+    return {
+      fill: true,
+      fillColor: cssColor(paint['fill-color']),
+      fillOpacity: opacity,
+      // The 1px antialiasing outline only shows with an explicit color
+      ...(typeof outline === 'string' && { stroke: true, color: outline, weight: 1, opacity }),
+    };
+  }
+  if (type === 'line') {
+    const width = toNumber(paint['line-width'], 1);
+    const dashes = paint['line-dasharray'];
+    return {
+      stroke: true,
+      color: cssColor(paint['line-color']),
+      weight: width,
+      opacity: toNumber(paint['line-opacity'], 1),
+      // Dash lengths are in line widths
+      dashArray: Array.isArray(dashes)
+        ? dashes.map((dash) => toNumber(dash, 0) * Math.max(width, 1)).join(' ')
+        : undefined,
+      lineCap: (layout['line-cap'] as PathOptions['lineCap']) ?? 'butt',
+      lineJoin: (layout['line-join'] as PathOptions['lineJoin']) ?? 'miter',
+    };
+  }
+  const strokeWidth = toNumber(paint['circle-stroke-width'], 0);
+  return {
+    radius: toNumber(paint['circle-radius'], 5),
+    fill: true,
+    fillColor: cssColor(paint['circle-color']),
+    fillOpacity: toNumber(paint['circle-opacity'], 1),
+    stroke: strokeWidth > 0,
+    color: cssColor(paint['circle-stroke-color']),
+    weight: strokeWidth,
+    opacity: toNumber(paint['circle-stroke-opacity'], 1),
+  } as PathOptions;
+}
+
+// Path options a layer paints a feature with, leaving its filter and zoom
+// range aside, e.g. for a legend swatch
+export function layerPathStyle(
+  layer: MapStyleLayer,
+  properties: FeatureProperties,
+  zoom: number
+): PathOptions {
+  const type = layer.type as StyleLayerType;
+  const paint = compilePaint(layer.paint ?? {}, PAINT_DEFAULTS[type]);
+  return pathOptions(
+    type,
+    paint({ properties, zoom, geometryType: LAYER_GEOMETRY[type][0] }),
+    layer.layout ?? {}
+  );
+}
+
+export function isSupportedLayer(layer: MapStyleLayer): boolean {
+  return (
+    SUPPORTED_LAYER_TYPES.includes(layer.type as StyleLayerType) &&
+    Boolean(layer['source-layer']) &&
+    layer.layout?.visibility !== 'none'
+  );
+}
+
+// Compile one fill, line or circle layer; throws MapStyleError for what the
+// viewer cannot draw
+export function compileStyleLayer(layer: MapStyleLayer): CompiledStyleLayer {
+  if (!isSupportedLayer(layer)) {
+    throw new MapStyleError(`Layer "${layer.id}" is not a visible fill, line or circle layer`);
+  }
+  const type = layer.type as StyleLayerType;
+  const geometryTypes = LAYER_GEOMETRY[type];
+  const layout = layer.layout ?? {};
+  const minZoom = layer.minzoom ?? 0;
+  const maxZoom = layer.maxzoom ?? Infinity;
+  let filter: Evaluator;
+  let paint: ReturnType<typeof compilePaint>;
+  try {
+    filter = layer.filter === undefined ? () => true : compileExpression(convertFilter(layer.filter));
+    paint = compilePaint(layer.paint ?? {}, PAINT_DEFAULTS[type]);
+  } catch (error) {
+    if (!(error instanceof MapStyleError)) throw error;
+    throw new MapStyleError(`Layer "${layer.id}": ${error.message}`);
+  }
+
+  return {
+    id: layer.id,
+    type,
+    sourceLayer: layer['source-layer'],
+    style: (properties, zoom) => {
+      if (zoom < minZoom || zoom >= maxZoom) return null;
+      const context = geometryTypes
+        .map((geometryType) => ({ properties, zoom, geometryType }))
+        .find((candidate) => filter(candidate) === true);
+      return context ? pathOptions(type, paint(context), layout) : null;
+    },
+  };
+}
+
+// One style function per source layer. Its style layers are painted in
+// document order onto a single path, as vectorGrid draws each feature once: a
+// fill and a line layer over the same lots give a filled, outlined polygon.
+// Features no layer draws are hidden (vectorGrid skips an empty style list).
+export function sourceLayerStyles(layers: CompiledStyleLayer[]) {
+  const grouped = new Map<string, CompiledStyleLayer[]>();
+  for (const layer of layers) {
+    grouped.set(layer.sourceLayer, [...(grouped.get(layer.sourceLayer) ?? []), layer]);
+  }
+  return Object.fromEntries(
+    [...grouped].map(([sourceLayer, group]) => [
+      sourceLayer,
+      (properties: FeatureProperties, zoom: number): PathOptions | null => {
+        let merged: PathOptions | null = null;
+        for (const layer of group) {
+          const style = layer.style(properties, zoom);
+          if (style) merged = { ...(merged ?? { stroke: false, fill: false }), ...style };
+        }
+        return merged;
+      },
+    ])
+  );
+}
+
+export function parseMapStyle(json: unknown): MapStyleDocument {
+  const result = mapStyleSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new MapStyleError(
+      `Invalid style document (${issue.path.join('.') || '<root>'}: ${issue.message})`
+    );
+  }
+  return result.data as MapStyleDocument;
+}
+
+// Every failure comes out as a MapStyleError: the style is optional, and the
+// layers fall back to their own styles without it
+export async function fetchMapStyle(url: string): Promise<MapStyleDocument> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new MapStyleError(`Could not load style from ${url} (${(error as Error).message})`);
+  }
+  if (!response.ok) {
+    throw new MapStyleError(`Could not load style from ${url} (HTTP ${response.status})`);
+  }
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    throw new MapStyleError(`Style at ${url} is not valid JSON`);
+  }
+  return parseMapStyle(json);
+}
@@ -0,0 +1,68 @@
+import type { LayerView } from '@/lib/layers';
+
+// Everything needed to reproduce what a colleague is looking at:
+//   /?layers=cadastro.lote,cadastro.quadra&basemap=osm&lot=123#17.15/-16.6673/-49.3273
+// The view lives in the hash (zoom/lat/lng, like OSM), the rest in the query.
+export interface PermalinkState {
+  view?: LayerView;
+  // Visible overlays, topmost first
+  layers?: string[];
+  basemap?: string;
+  lot?: string;
+}
+
+export function parseViewHash(hash: string): LayerView | undefined {
+  const parts = hash.replace(/^#/, '').split('/');
+  if (parts.length !== 3) return undefined;
+
+  const [zoom, latitude, longitude] = parts.map(Number);
+  if (
+    [zoom, latitude, longitude].some((value) => !Number.isFinite(value)) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180 ||
+    zoom < 0 ||
+    zoom > 24
+  ) {
+    return undefined;
+  }
+  return { latitude, longitude, zoom };
+}
+
+export function formatViewHash(view: LayerView): string {
+  return `#${Number(view.zoom.toFixed(2))}/${view.latitude.toFixed(6)}/${view.longitude.toFixed(6)}`;
+}
+
+export function parsePermalink(search: string, hash: string): PermalinkState {
+  const params = new URLSearchParams(search);
+  const layers = params.get('layers');
+
+  return {
+    view: parseViewHash(hash),
+    layers: layers === null ? undefined : layers.split(',').filter(Boolean),
+    basemap: params.get('basemap') || undefined,
+    lot: params.get('lot') || undefined,
+  };
+}
+
+// Merge the viewer state into the existing query string so that parameters
+// owned by someone else survive
+export function buildPermalink(
+  state: PermalinkState,
+  currentSearch = ''
+): { search: string; hash: string } {
+  const params = new URLSearchParams(currentSearch);
+  const set = (key: string, value: string | undefined) => {
+    if (value === undefined) params.delete(key);
+    else params.set(key, value);
+  };
+
+  set('layers', state.layers?.join(','));
+  set('basemap', state.basemap);
+  set('lot', state.lot);
+
+  const search = params.toString().replace(/%2C/gi, ',');
+  return {
+    search: search ? `?${search}` : '',
+    hash: state.view ? formatViewHash(state.view) : '',
+  };
+}
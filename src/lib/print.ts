@@ -0,0 +1,316 @@
+import type { Locale } from '@/lib/i18n';
+import { formatDistance } from '@/lib/geodesy';
+import { scaleBarLength } from '@/lib/scale';
+import type { LegendGroup, LegendItem } from '@/lib/legend';
+
+// Portrait sizes in millimetres
+export const PAPER_SIZES = {
+  a4: { width: 210, height: 297 },
+  a3: { width: 297, height: 420 },
+  letter: { width: 215.9, height: 279.4 },
+  legal: { width: 215.9, height: 355.6 },
+} as const;
+export type PaperSize = keyof typeof PAPER_SIZES;
+
+export const ORIENTATIONS = ['portrait', 'landscape'] as const;
+export type Orientation = (typeof ORIENTATIONS)[number];
+
+export const PRINT_DPIS = [96, 150, 300] as const;
+
+export const PRINT_FORMATS = ['png', 'pdf'] as const;
+export type PrintFormat = (typeof PRINT_FORMATS)[number];
+
+export interface PrintOptions {
+  title: string;
+  paper: PaperSize;
+  orientation: Orientation;
+  dpi: number;
+  format: PrintFormat;
+  // Denominator of the scale to print at; the map's scale on screen when null
+  scale: number | null;
+}
+
+const MM_PER_INCH = 25.4;
+
+const MARGIN = 10;
+const HEADER_HEIGHT = 14;
+const FOOTER_HEIGHT = 26;
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PageLayout {
+  // Millimetres
+  page: { width: number; height: number };
+  map: Rect;
+}
+
+export function pageLayout({
+  paper,
+  orientation,
+}: Pick<PrintOptions, 'paper' | 'orientation'>): PageLayout {
+  const { width, height } = PAPER_SIZES[paper];
+  const page =
+    orientation === 'portrait' ? { width, height } : { width: height, height: width };
+  return {
+    page,
+    map: {
+      x: MARGIN,
+      y: MARGIN + HEADER_HEIGHT,
+      width: page.width - 2 * MARGIN,
+      height: page.height - 2 * MARGIN - HEADER_HEIGHT - FOOTER_HEIGHT,
+    },
+  };
+}
+
+export function mmToPixels(mm: number, dpi: number) {
+  return Math.round((mm / MM_PER_INCH) * dpi);
+}
+
+export interface PageContents {
+  title: string;
+  timestamp: string;
+  attribution: string;
+  // Already worded, e.g. "Scale 1:1,000"
+  scaleText: string;
+  metersPerPixel: number;
+  legend: LegendGroup[];
+  locale: Locale;
+}
+
+function drawScaleBar(
+  context: CanvasRenderingContext2D,
+  px: (mm: number) => number,
+  x: number,
+  y: number,
+  { metersPerPixel, scaleText, locale }: PageContents
+) {
+  const meters = scaleBarLength(px(40) * metersPerPixel);
+  const length = meters / metersPerPixel;
+  const segments = 4;
+  context.lineWidth = px(0.2);
+  for (let i = 0; i < segments; i++) {
+    context.fillStyle = i % 2 === 0 ? '#111' : '#fff';
+    context.fillRect(x + (length * i) / segments, y, length / segments, px(1.6));
+  }
+  context.strokeStyle = '#111';
+  context.strokeRect(x, y, length, px(1.6));
+
+  context.fillStyle = '#111';
+  context.font = `${px(2.6)}px system-ui, sans-serif`;
+  context.textBaseline = 'top';
+  context.textAlign = 'left';
+  context.fillText('0', x, y + px(2.4));
+  context.textAlign = 'right';
+  context.fillText(formatDistance(locale, meters), x + length, y + px(2.4));
+  context.textAlign = 'left';
+  context.font = `${px(3)}px system-ui, sans-serif`;
+  context.fillText(scaleText, x, y + px(6.5));
+}
+
+function drawNorthArrow(
+  context: CanvasRenderingContext2D,
+  px: (mm: number) => number,
+  x: number,
+  y: number
+) {
+  const width = px(6);
+  const height = px(10);
+  context.fillStyle = '#111';
+  context.font = `bold ${px(3.5)}px system-ui, sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'top';
+  context.fillText('N', x, y);
+
+  const top = y + px(4.5);
+  context.beginPath();
+  context.moveTo(x, top);
+  context.lineTo(x + width / 2, top + height);
+  context.lineTo(x, top + height * 0.72);
+  context.closePath();
+  context.fill();
+  context.beginPath();
+  context.moveTo(x, top);
+  context.lineTo(x - width / 2, top + height);
+  context.lineTo(x, top + height * 0.72);
+  context.closePath();
+  context.lineWidth = px(0.3);
+  context.strokeStyle = '#111';
+  context.stroke();
+}
+
+function drawSwatch(
+  context: CanvasRenderingContext2D,
+  px: (mm: number) => number,
+  x: number,
+  y: number,
+  item: LegendItem
+) {
+  const width = px(5);
+  const height = px(2.8);
+  context.lineWidth = px(item.symbol === 'line' ? 0.8 : 0.4);
+  context.strokeStyle = item.color ?? 'transparent';
+  context.fillStyle = item.fillColor ?? 'transparent';
+  context.beginPath();
+  if (item.symbol === 'line') {
+    context.moveTo(x, y);
+    context.lineTo(x + width, y);
+  } else if (item.symbol === 'point') {
+    context.arc(x + width / 2, y, height / 2, 0, 2 * Math.PI);
+  } else {
+    context.rect(x, y - height / 2, width, height);
+  }
+  if (item.fillColor && item.symbol !== 'line') {
+    context.globalAlpha = item.fillOpacity;
+    context.fill();
+  }
+  if (item.color) {
+    context.globalAlpha = item.opacity;
+    context.stroke();
+  }
+  context.globalAlpha = 1;
+}
+
+// Layers with a simple style take one row; thematic ones a title row over a
+// row per category or class. Rows fill columns top to bottom, left to right,
+// while they fit; a count of the rows left out ends a legend that does not.
+function drawLegend(
+  context: CanvasRenderingContext2D,
+  px: (mm: number) => number,
+  area: Rect,
+  legend: LegendGroup[]
+) {
+  const rowHeight = px(3.75);
+  const columnWidth = px(42);
+  const rows = Math.max(1, Math.floor(area.height / rowHeight));
+  const columns = Math.max(1, Math.floor(area.width / columnWidth));
+  const lines = legend.flatMap((group) =>
+    group.kind === 'simple'
+      ? [{ item: group.items[0], text: group.title }]
+      : [
+          { text: group.field ? `${group.title} · ${group.field}` : group.title },
+          ...group.items.map((item) => ({ item, text: item.label })),
+        ]
+  );
+  const capacity = rows * columns;
+  const shown = lines.length > capacity ? lines.slice(0, capacity - 1) : lines;
+
+  context.textAlign = 'left';
+  context.textBaseline = 'middle';
+  shown.forEach((line, index) => {
+    const x = area.x + Math.floor(index / rows) * columnWidth;
+    const y = area.y + (index % rows) * rowHeight + rowHeight / 2;
+    context.fillStyle = '#111';
+    if ('item' in line) {
+      drawSwatch(context, px, x, y, line.item);
+      context.fillStyle = '#111';
+      context.font = `${px(2.6)}px system-ui, sans-serif`;
+      context.fillText(line.text, x + px(7), y, columnWidth - px(8));
+    } else {
+      context.font = `bold ${px(2.6)}px system-ui, sans-serif`;
+      context.fillText(line.text, x, y, columnWidth - px(1));
+    }
+  });
+  if (shown.length < lines.length) {
+    const index = capacity - 1;
+    context.font = `${px(2.6)}px system-ui, sans-serif`;
+    context.fillStyle = '#555';
+    context.fillText(
+      `+${lines.length - shown.length}`,
+      area.x + Math.floor(index / rows) * columnWidth,
+      area.y + (index % rows) * rowHeight + rowHeight / 2
+    );
+  }
+}
+
+// Compose the printed page: title and timestamp over the map, then scale,
+// legend and north arrow, and the attribution at the bottom
+export function drawPage(
+  map: HTMLCanvasElement,
+  options: PrintOptions,
+  contents: PageContents
+): HTMLCanvasElement {
+  const layout = pageLayout(options);
+  const px = (mm: number) => mmToPixels(mm, options.dpi);
+  const canvas = document.createElement('canvas');
+  canvas.width = px(layout.page.width);
+  canvas.height = px(layout.page.height);
+  const context = canvas.getContext('2d');
+  if (!context) return canvas;
+
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  const left = px(MARGIN);
+  const right = canvas.width - px(MARGIN);
+  context.fillStyle = '#111';
+  context.textBaseline = 'alphabetic';
+  context.textAlign = 'left';
+  context.font = `bold ${px(6)}px system-ui, sans-serif`;
+  context.fillText(contents.title, left, px(MARGIN + 8), (right - left) * 0.7);
+  context.font = `${px(3)}px system-ui, sans-serif`;
+  context.textAlign = 'right';
+  context.fillStyle = '#555';
+  context.fillText(contents.timestamp, right, px(MARGIN + 8));
+
+  const frame = {
+    x: px(layout.map.x),
+    y: px(layout.map.y),
+    width: px(layout.map.width),
+    height: px(layout.map.height),
+  };
+  context.drawImage(map, frame.x, frame.y, frame.width, frame.height);
+  context.strokeStyle = '#111';
+  context.lineWidth = px(0.3);
+  context.strokeRect(frame.x, frame.y, frame.width, frame.height);
+
+  const footer = frame.y + frame.height + px(4);
+  drawScaleBar(context, px, left, footer, contents);
+  drawLegend(
+    context,
+    px,
+    { x: left + px(55), y: footer, width: right - left - px(70), height: px(15) },
+    contents.legend
+  );
+  drawNorthArrow(context, px, right - px(5), footer - px(1));
+
+  context.font = `${px(2.2)}px system-ui, sans-serif`;
+  context.textAlign = 'left';
+  context.textBaseline = 'alphabetic';
+  context.fillStyle = '#555';
+  context.fillText(contents.attribution, left, canvas.height - px(MARGIN), right - left);
+  return canvas;
+}
+
+function crc32(bytes: Uint8Array) {
+  let crc = -1;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return (crc ^ -1) >>> 0;
+}
+
+// Canvas PNGs carry no resolution; add a pHYs chunk after the header so the
+// file prints at its DPI
+export async function setPngDpi(png: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  // Signature (8 bytes) and IHDR chunk (25 bytes)
+  const headerEnd = 33;
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  const pixelsPerMeter = Math.round(dpi / (MM_PER_INCH / 1000));
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // Unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  return new Blob([bytes.subarray(0, headerEnd), chunk, bytes.subarray(headerEnd)], {
+    type: 'image/png',
+  });
+}
@@ -0,0 +1,53 @@
+import proj4 from 'proj4';
+
+// SIRGAS 2000 / UTM zone 22S, the projection of Goiânia's cadastral documents
+export const UTM_22S = 'EPSG:31982';
+
+proj4.defs(
+  UTM_22S,
+  '+proj=utm +zone=22 +south +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs'
+);
+
+export interface UtmPosition {
+  easting: number;
+  northing: number;
+  zone: number;
+  south: boolean;
+}
+
+// SIRGAS 2000 is tied to WGS84 within centimetres, so other UTM zones share
+// the same definition apart from zone and hemisphere
+export function utmDefinition(zone: number, south: boolean) {
+  if (zone === 22 && south) return UTM_22S;
+  return `+proj=utm +zone=${zone}${south ? ' +south' : ''} +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs`;
+}
+
+// Projection of an EPSG code found in a data file: SIRGAS 2000 / UTM 18S to
+// 25S (EPSG:31978 to 31985, all of Brazil). SIRGAS 2000 and WGS84
+// geographic coordinates (EPSG:4674, 4326) need no conversion, hence null.
+export function epsgDefinition(code: number): string | null | undefined {
+  if (code === 4326 || code === 4674) return null;
+  if (code >= 31978 && code <= 31985) return utmDefinition(code - 31960, true);
+  return undefined;
+}
+
+export function utmToLatLng({ easting, northing, zone, south }: UtmPosition) {
+  const [longitude, latitude] = proj4(utmDefinition(zone, south), 'EPSG:4326', [
+    easting,
+    northing,
+  ]);
+  return { latitude, longitude };
+}
+
+export function latLngToUtm(
+  latitude: number,
+  longitude: number,
+  zone = 22,
+  south = true
+): UtmPosition {
+  const [easting, northing] = proj4('EPSG:4326', utmDefinition(zone, south), [
+    longitude,
+    latitude,
+  ]);
+  return { easting, northing, zone, south };
+}
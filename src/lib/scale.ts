@@ -0,0 +1,53 @@
+// Map scales as 1:N, for engineers who think in drawing scales rather than
+// zoom levels. Web Mercator stretches the ground by 1/cos(latitude), so the
+// same zoom is a different scale at Goiânia than at the equator.
+
+// Equatorial circumference of the WGS84 ellipsoid, the width of the world at zoom 0
+const EARTH_CIRCUMFERENCE = 40_075_016.686;
+const TILE_SIZE = 256;
+const METERS_PER_INCH = 0.0254;
+
+// CSS pixels are defined as 1/96 inch; screens are taken to follow it
+export const SCREEN_DPI = 96;
+
+// Scales offered for picking, the usual ones of cadastral and site plans
+export const PRESET_SCALES = [500, 1000, 2000, 5000, 10000] as const;
+
+export function metersPerPixel(latitude: number, zoom: number) {
+  return (EARTH_CIRCUMFERENCE * Math.cos((latitude * Math.PI) / 180)) / (TILE_SIZE * 2 ** zoom);
+}
+
+// N of 1:N for a zoom at a latitude, on a medium of the given resolution
+export function scaleDenominator(latitude: number, zoom: number, dpi = SCREEN_DPI) {
+  return (metersPerPixel(latitude, zoom) * dpi) / METERS_PER_INCH;
+}
+
+// Views keep zooms to two decimals, about 0.7% of scale: readouts are rounded
+// to three significant digits rather than show noise
+export function roundScale(denominator: number) {
+  return Number(denominator.toPrecision(3));
+}
+
+// The fractional zoom showing 1:N at a latitude
+export function zoomForScale(denominator: number, latitude: number, dpi = SCREEN_DPI) {
+  return Math.log2(
+    (EARTH_CIRCUMFERENCE * Math.cos((latitude * Math.PI) / 180) * dpi) /
+      (TILE_SIZE * METERS_PER_INCH * denominator)
+  );
+}
+
+// Read a scale as typed: "1:1000", "1:1.000", "1/2 000", "500". Dots, commas
+// and spaces are taken as thousands separators, as scales have no decimals.
+export function parseScale(text: string): number | null {
+  const match = text.trim().match(/^(?:1\s*[:/]\s*)?(\d[\d.,\s]*)$/);
+  if (!match) return null;
+  const denominator = Number(match[1].replace(/[.,\s]/g, ''));
+  return denominator >= 1 ? denominator : null;
+}
+
+// Longest 1, 2 or 5 times a power of ten that fits in `maxMeters`, for
+// scale bars
+export function scaleBarLength(maxMeters: number) {
+  const power = 10 ** Math.floor(Math.log10(maxMeters));
+  return [5, 2, 1].map((step) => step * power).find((length) => length <= maxMeters) ?? power;
+}
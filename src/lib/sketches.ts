@@ -0,0 +1,204 @@
+import { z } from 'zod';
+import type { LatLngLiteral } from 'leaflet';
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+
+export const SKETCH_KINDS = ['point', 'line', 'polygon'] as const;
+export type SketchKind = (typeof SKETCH_KINDS)[number];
+
+// Swatches offered for new annotations; imported files may use any hex color
+export const SKETCH_COLORS = [
+  '#dc2626',
+  '#ea580c',
+  '#ca8a04',
+  '#16a34a',
+  '#0891b2',
+  '#2563eb',
+  '#9333ea',
+  '#111827',
+];
+
+const colorSchema = z.string().regex(/^#[0-9a-f]{6}$/i);
+
+const latLngSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+// Fewest vertices that make each kind of sketch
+export const MIN_VERTICES: Record<SketchKind, number> = { point: 1, line: 2, polygon: 3 };
+
+export const sketchSchema = z
+  .object({
+    id: z.string().min(1),
+    kind: z.enum(SKETCH_KINDS),
+    // One for points; polygons are stored open (no repeated first vertex)
+    points: z.array(latLngSchema).min(1),
+    label: z.string().default(''),
+    note: z.string().default(''),
+    color: colorSchema,
+    createdAt: z.string(),
+  })
+  .refine((sketch) => sketch.points.length >= MIN_VERTICES[sketch.kind], {
+    message: 'Too few vertices',
+    path: ['points'],
+  });
+
+export interface Sketch extends z.infer<typeof sketchSchema> {
+  kind: SketchKind;
+  points: LatLngLiteral[];
+  label: string;
+  note: string;
+}
+
+// What went wrong, for the UI to describe (`sketch.error.<code>`); the
+// message has the details
+export type SketchImportErrorCode = 'json' | 'notGeoJson' | 'invalid' | 'empty';
+
+export class SketchImportError extends Error {
+  code: SketchImportErrorCode;
+  // 1-based position of the offending feature, for 'invalid'
+  feature?: number;
+
+  constructor(code: SketchImportErrorCode, message: string, feature?: number) {
+    super(message);
+    this.name = 'SketchImportError';
+    this.code = code;
+    this.feature = feature;
+  }
+}
+
+export function createSketchId() {
+  return `sketch-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+const toPosition = ({ lat, lng }: LatLngLiteral): Position => [lng, lat];
+const toLatLng = ([lng, lat]: Position): LatLngLiteral => ({ lat, lng });
+
+function sketchGeometry({ kind, points }: Sketch): Geometry {
+  if (kind === 'point') return { type: 'Point', coordinates: toPosition(points[0]) };
+  if (kind === 'line') return { type: 'LineString', coordinates: points.map(toPosition) };
+  return { type: 'Polygon', coordinates: [[...points, points[0]].map(toPosition)] };
+}
+
+export function sketchesToGeoJSON(sketches: Sketch[]): FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: sketches.map((sketch) => ({
+      type: 'Feature',
+      id: sketch.id,
+      geometry: sketchGeometry(sketch),
+      properties: {
+        label: sketch.label,
+        note: sketch.note,
+        color: sketch.color,
+        createdAt: sketch.createdAt,
+      },
+    })),
+  };
+}
+
+export function serializeSketches(sketches: Sketch[]): string {
+  return JSON.stringify(sketchesToGeoJSON(sketches), null, 2);
+}
+
+// Parts of a geometry as sketches' kind and vertices; Multi* geometries and
+// collections are split, polygon holes dropped
+type SketchPart = Pick<Sketch, 'kind' | 'points'>;
+
+function geometryParts(geometry: Geometry | null): SketchPart[] {
+  if (!geometry) return [];
+  switch (geometry.type) {
+    case 'Point':
+      return [{ kind: 'point', points: [toLatLng(geometry.coordinates)] }];
+    case 'MultiPoint':
+      return geometry.coordinates.map((position) => ({
+        kind: 'point',
+        points: [toLatLng(position)],
+      }));
+    case 'LineString':
+      return [{ kind: 'line', points: geometry.coordinates.map(toLatLng) }];
+    case 'MultiLineString':
+      return geometry.coordinates.map((line) => ({ kind: 'line', points: line.map(toLatLng) }));
+    case 'Polygon':
+      return [{ kind: 'polygon', points: geometry.coordinates[0].slice(0, -1).map(toLatLng) }];
+    case 'MultiPolygon':
+      return geometry.coordinates.map((polygon) => ({
+        kind: 'polygon',
+        points: polygon[0].slice(0, -1).map(toLatLng),
+      }));
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(geometryParts);
+  }
+}
+
+// Text property under any of the given names (ours first, then common ones
+// from other tools, e.g. `name`/`description` from geojson.io or QGIS)
+function pickText(properties: Record<string, unknown>, names: string[]) {
+  for (const name of names) {
+    const value = properties[name];
+    if (typeof value === 'string' || typeof value === 'number') return String(value);
+  }
+  return '';
+}
+
+function pickColor(properties: Record<string, unknown>, fallback: string) {
+  for (const name of ['color', 'stroke', 'marker-color', 'fill']) {
+    const result = colorSchema.safeParse(properties[name]);
+    if (result.success) return result.data;
+  }
+  return fallback;
+}
+
+// Read a GeoJSON file (FeatureCollection, Feature or bare geometry) into
+// sketches. Features keep their id when they have one, so re-importing an
+// exported file updates those sketches instead of duplicating them.
+export function parseSketchFile(text: string, defaultColor: string): Sketch[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new SketchImportError('json', 'The file is not valid JSON');
+  }
+
+  const root = json as { type?: unknown };
+  let features: Feature[];
+  if (root?.type === 'FeatureCollection') {
+    features = (json as FeatureCollection).features ?? [];
+  } else if (root?.type === 'Feature') {
+    features = [json as Feature];
+  } else if (typeof root?.type === 'string') {
+    features = [{ type: 'Feature', geometry: json as Geometry, properties: {} }];
+  } else {
+    throw new SketchImportError('notGeoJson', 'The file is not GeoJSON');
+  }
+
+  const createdAt = new Date().toISOString();
+  const sketches = features.flatMap((feature, index) => {
+    const properties = (feature?.properties ?? {}) as Record<string, unknown>;
+    const parts = geometryParts(feature?.geometry ?? null);
+    const baseId = typeof feature.id === 'string' && feature.id ? feature.id : createSketchId();
+    return parts.map((part, partIndex) => {
+      const result = sketchSchema.safeParse({
+        id: parts.length > 1 ? `${baseId}-${partIndex + 1}` : baseId,
+        kind: part.kind,
+        points: part.points,
+        label: pickText(properties, ['label', 'name', 'title']),
+        note: pickText(properties, ['note', 'description', 'desc']),
+        color: pickColor(properties, defaultColor),
+        createdAt: pickText(properties, ['createdAt']) || createdAt,
+      });
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        throw new SketchImportError(
+          'invalid',
+          `Invalid feature #${index + 1} at ${issue.path.join('.') || '<root>'}: ${issue.message}`,
+          index + 1
+        );
+      }
+      return result.data as Sketch;
+    });
+  });
+
+  if (sketches.length === 0) throw new SketchImportError('empty', 'The file has no features');
+  return sketches;
+}
@@ -0,0 +1,28 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+
+const STORAGE_PREFIX = 'goiania-viewer:';
+
+// Read a JSON value from localStorage, falling back when it is missing,
+// unparsable or no longer matches the schema (e.g. after a format change).
+export function readStorage<T>(
+  key: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  fallback: T
+): T {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + key);
+    if (raw === null) return fallback;
+    const result = schema.safeParse(JSON.parse(raw));
+    return result.success ? result.data : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeStorage(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch {
+    // Storage can be full or disabled (private mode); persistence is best-effort
+  }
+}
@@ -0,0 +1,48 @@
+import { useSyncExternalStore } from 'react';
+
+type Listener = () => void;
+type Updater<T> = T | ((prev: T) => T);
+
+export interface Store<T> {
+  getState: () => T;
+  setState: (update: Updater<T>) => void;
+  subscribe: (listener: Listener) => () => void;
+}
+
+// Minimal module-level store, in the spirit of hooks/use-toast: state lives
+// outside React so the map components and the side panels can share it
+// without threading props through MapContainer.
+export function createStore<T>(initialState: T): Store<T> {
+  let state = initialState;
+  const listeners = new Set<Listener>();
+
+  return {
+    getState: () => state,
+    setState: (update) => {
+      const next =
+        typeof update === 'function'
+          ? (update as (prev: T) => T)(state)
+          : update;
+      if (Object.is(next, state)) return;
+      state = next;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// Selectors must return values that are stable between unrelated updates
+// (a slice of state, a primitive), otherwise React re-renders in a loop.
+export function useStore<T, S = T>(
+  store: Store<T>,
+  selector: (state: T) => S = (state) => state as unknown as S
+): S {
+  return useSyncExternalStore(store.subscribe, () =>
+    selector(store.getState())
+  );
+}
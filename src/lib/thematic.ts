@@ -0,0 +1,246 @@
+import { z } from 'zod';
+import type { PathOptions } from 'leaflet';
+import { stringifyValue } from '@/lib/attributes';
+import { isNullValue, toNumber } from '@/lib/fields';
+import type { FeatureProperties } from '@/lib/vector-grids';
+
+// Color ramps for graduated classes (light to dark, from ColorBrewer and
+// viridis) and color sets for categories
+export const PALETTES = {
+  blues: ['#eff3ff', '#bdd7e7', '#6baed6', '#3182bd', '#08519c'],
+  greens: ['#edf8e9', '#bae4b3', '#74c476', '#31a354', '#006d2c'],
+  oranges: ['#feedde', '#fdbe85', '#fd8d3c', '#e6550d', '#a63603'],
+  reds: ['#fee5d9', '#fcae91', '#fb6a4a', '#de2d26', '#a50f15'],
+  purples: ['#f2f0f7', '#cbc9e2', '#9e9ac8', '#756bb1', '#54278f'],
+  viridis: ['#fde725', '#5ec962', '#21918c', '#3b528b', '#440154'],
+  spectral: ['#2b83ba', '#abdda4', '#ffffbf', '#fdae61', '#d7191c'],
+  tableau: [
+    '#4e79a7',
+    '#f28e2b',
+    '#e15759',
+    '#76b7b2',
+    '#59a14f',
+    '#edc948',
+    '#b07aa1',
+    '#ff9da7',
+    '#9c755f',
+    '#bab0ac',
+  ],
+  set2: ['#66c2a5', '#fc8d62', '#8da0cb', '#e78ac3', '#a6d854', '#ffd92f', '#e5c494', '#b3b3b3'],
+} as const;
+export type PaletteName = keyof typeof PALETTES;
+
+export const RAMP_PALETTES: PaletteName[] = [
+  'blues',
+  'greens',
+  'oranges',
+  'reds',
+  'purples',
+  'viridis',
+  'spectral',
+];
+export const CATEGORY_PALETTES: PaletteName[] = ['tableau', 'set2'];
+
+export const CLASSIFICATION_METHODS = ['equal', 'quantile', 'manual'] as const;
+export type ClassificationMethod = (typeof CLASSIFICATION_METHODS)[number];
+
+export const MIN_CLASSES = 2;
+export const MAX_CLASSES = 9;
+// Values beyond these get the "other" color rather than one each
+export const MAX_CATEGORIES = 12;
+
+// Features without a value (or outside every class) are painted grey
+export const NO_DATA_COLOR = '#d1d5db';
+// and values beyond the listed categories a darker one
+export const OTHER_COLOR = '#9ca3af';
+// Themed fills are more opaque than the default, so colors read
+const THEMATIC_FILL_OPACITY = 0.7;
+
+const categorySchema = z.object({
+  value: z.string(),
+  color: z.string(),
+});
+
+const categoricalSchema = z.object({
+  type: z.literal('categorical'),
+  field: z.string().min(1),
+  palette: z.string(),
+  categories: z.array(categorySchema),
+  otherColor: z.string(),
+});
+
+const graduatedSchema = z.object({
+  type: z.literal('graduated'),
+  field: z.string().min(1),
+  palette: z.string(),
+  method: z.enum(CLASSIFICATION_METHODS),
+  // Class limits, lowest first: n classes have n + 1
+  breaks: z.array(z.number()).min(2),
+  colors: z.array(z.string()),
+});
+
+export const thematicStyleSchema = z.discriminatedUnion('type', [
+  categoricalSchema,
+  graduatedSchema,
+]);
+
+export interface Category {
+  value: string;
+  color: string;
+}
+
+export interface CategoricalStyle {
+  type: 'categorical';
+  field: string;
+  palette: string;
+  categories: Category[];
+  otherColor: string;
+}
+
+export interface GraduatedStyle {
+  type: 'graduated';
+  field: string;
+  palette: string;
+  method: ClassificationMethod;
+  breaks: number[];
+  colors: string[];
+}
+
+export type ThematicStyle = CategoricalStyle | GraduatedStyle;
+
+function paletteColors(palette: string): readonly string[] {
+  return PALETTES[palette as PaletteName] ?? PALETTES.blues;
+}
+
+function hexToRgb(hex: string) {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function rgbToHex(rgb: number[]) {
+  return `#${rgb.map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+}
+
+// `count` colors evenly spread along a ramp, interpolated between its stops
+export function rampColors(palette: string, count: number): string[] {
+  const stops = paletteColors(palette).map(hexToRgb);
+  if (count === 1) return [rgbToHex(stops[stops.length - 1])];
+  return Array.from({ length: count }, (_, index) => {
+    const position = (index / (count - 1)) * (stops.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, stops.length - 1);
+    const weight = position - lower;
+    return rgbToHex(
+      stops[lower].map((channel, i) => channel + (stops[upper][i] - channel) * weight)
+    );
+  });
+}
+
+// Distinct colors for categories, repeating once the set runs out
+export function categoryColors(palette: string, count: number): string[] {
+  const colors = paletteColors(palette);
+  return Array.from({ length: count }, (_, index) => colors[index % colors.length]);
+}
+
+export function numericValues(rows: FeatureProperties[], field: string): number[] {
+  return rows
+    .map((row) => toNumber(row[field]))
+    .filter((value): value is number => value !== null);
+}
+
+// Class limits for a classification method; manual breaks are given by the
+// user and only framed by the data's range
+export function classBreaks(
+  values: number[],
+  method: ClassificationMethod,
+  count: number,
+  manual: number[] = []
+): number[] {
+  if (values.length === 0) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  // A single value still makes one class, holding every feature
+  if (min === max) return [min, max];
+  let inner: number[];
+  if (method === 'manual') {
+    inner = manual.filter((value) => value > min && value < max);
+  } else if (method === 'equal') {
+    inner = Array.from({ length: count - 1 }, (_, i) => min + ((max - min) * (i + 1)) / count);
+  } else {
+    inner = Array.from(
+      { length: count - 1 },
+      (_, i) => sorted[Math.floor(((i + 1) * sorted.length) / count)]
+    );
+  }
+  // Quantiles of repeated values, and manual breaks, may coincide
+  return [...new Set([min, ...inner.sort((a, b) => a - b), max])];
+}
+
+// Most frequent values first, as many as get a color of their own
+export function topCategories(rows: FeatureProperties[], field: string): string[] {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    if (isNullValue(row[field])) continue;
+    const value = stringifyValue(row[field]);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_CATEGORIES)
+    .map(([value]) => value);
+}
+
+// Index of the class holding a value: lower limit included, the top class
+// also holds the maximum
+export function classIndex(breaks: number[], value: number): number {
+  if (value < breaks[0] || value > breaks[breaks.length - 1]) return -1;
+  for (let i = 1; i < breaks.length - 1; i++) {
+    if (value < breaks[i]) return i - 1;
+  }
+  return breaks.length - 2;
+}
+
+// Index of the category or class a feature falls in; -1 for features
+// without a value, -2 for values in no category or class
+export function thematicClass(style: ThematicStyle, properties: FeatureProperties): number {
+  const value = properties[style.field];
+  if (isNullValue(value)) return -1;
+  if (style.type === 'categorical') {
+    const text = stringifyValue(value);
+    const index = style.categories.findIndex((category) => category.value === text);
+    return index === -1 ? -2 : index;
+  }
+  const number = toNumber(value);
+  const index = number === null ? -1 : classIndex(style.breaks, number);
+  return index === -1 ? -2 : index;
+}
+
+export function thematicColor(style: ThematicStyle, properties: FeatureProperties): string {
+  const index = thematicClass(style, properties);
+  if (index >= 0) {
+    return style.type === 'categorical' ? style.categories[index].color : style.colors[index];
+  }
+  return index === -2 && style.type === 'categorical' ? style.otherColor : NO_DATA_COLOR;
+}
+
+// A style with its fill in the given color. Styles drawn without fill
+// (lines) get their stroke colored instead.
+export function colorPathStyle(base: PathOptions, color: string): PathOptions {
+  if (base.fill === false) return { ...base, color };
+  return {
+    ...base,
+    fill: true,
+    fillColor: color,
+    fillOpacity: Math.max(base.fillOpacity ?? 0, THEMATIC_FILL_OPACITY),
+  };
+}
+
+// A feature's style colored by its category or class
+export function thematicPathStyle(
+  style: ThematicStyle,
+  properties: FeatureProperties,
+  base: PathOptions
+): PathOptions {
+  return colorPathStyle(base, thematicColor(style, properties));
+}
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+// Subset of the TileJSON 3.0.0 spec the viewer understands
+const vectorLayerSchema = z.object({
+  id: z.string(),
+  description: z.string().optional(),
+  minzoom: z.number().optional(),
+  maxzoom: z.number().optional(),
+  // Field name -> type/description, e.g. { "area": "Number" }
+  fields: z.record(z.string()).default({}),
+});
+
+const tileJsonSchema = z.object({
+  tilejson: z.string().optional(),
+  name: z.string().optional(),
+  tiles: z.array(z.string()).min(1),
+  minzoom: z.number().optional(),
+  maxzoom: z.number().optional(),
+  // [west, south, east, north]
+  bounds: z.tuple([z.number(), z.number(), z.number(), z.number()]).optional(),
+  // [longitude, latitude, zoom]
+  center: z.tuple([z.number(), z.number(), z.number()]).optional(),
+  attribution: z.string().optional(),
+  vector_layers: z.array(vectorLayerSchema).optional(),
+});
+
+export type TileJSON = z.infer<typeof tileJsonSchema>;
+export type TileJSONVectorLayer = z.infer<typeof vectorLayerSchema>;
+
+export class TileJSONError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TileJSONError';
+  }
+}
+
+export async function fetchTileJSON(url: string): Promise<TileJSON> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new TileJSONError(`Could not load TileJSON from ${url} (HTTP ${response.status})`);
+  }
+
+  const result = tileJsonSchema.safeParse(await response.json());
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new TileJSONError(
+      `Invalid TileJSON at ${url} (${issue.path.join('.') || '<root>'}: ${issue.message})`
+    );
+  }
+
+  // Tile templates may be relative to the TileJSON document
+  return {
+    ...result.data,
+    tiles: result.data.tiles.map((tile) =>
+      decodeURI(new URL(tile, new URL(url, window.location.href)).href)
+    ),
+  };
+}
@@ -0,0 +1,399 @@
+import L from 'leaflet';
+
+export type FeatureProperties = Record<string, unknown>;
+
+export type FeatureKind = 'point' | 'line' | 'polygon';
+
+// What leaflet.vectorgrid keeps per rendered feature when `getFeatureId` is set
+interface RenderedFeature {
+  layerName: string;
+  feature: L.Layer & {
+    properties: FeatureProperties;
+    // Rings/paths in tile pixel coordinates
+    _parts: L.Point[][];
+    _point?: L.Point;
+  };
+}
+
+type FeatureTile = L.Canvas.Tile & {
+  _features: Record<string, RenderedFeature>;
+};
+
+// A source layer's style as vectorGrid takes it: options or a function of
+// the feature's properties and the tile's zoom
+type SourceLayerStyle =
+  | L.PathOptions
+  | L.PathOptions[]
+  | ((properties: FeatureProperties, zoom: number) => L.PathOptions | L.PathOptions[]);
+
+type InspectableVectorGrid = L.VectorGrid & {
+  _map?: L.Map;
+  _vectorTiles?: Record<string, FeatureTile>;
+  _overriddenStyles?: Record<string, unknown>;
+  _updateStyles: (
+    feature: RenderedFeature['feature'],
+    tile: FeatureTile,
+    style: SourceLayerStyle
+  ) => void;
+};
+
+// A feature as found in the tiles currently loaded, in map coordinates
+export interface LoadedFeature {
+  id: string;
+  sourceLayer: string;
+  properties: FeatureProperties;
+  kind: FeatureKind;
+  // Rings/paths in WGS84. Polygons crossing tile edges are put back together
+  // where the neighbouring tiles are loaded; lines and points come with one
+  // entry per tile part.
+  latLngs: L.LatLng[][];
+  bounds: L.LatLngBounds;
+}
+
+// Live vector grids by layer id, so code outside the layer components
+// (lot lookup, exports, styling) can reach the rendered tiles
+const grids = new Map<string, L.VectorGrid>();
+
+export function registerVectorGrid(layerId: string, grid: L.VectorGrid) {
+  grids.set(layerId, grid);
+  return () => {
+    if (grids.get(layerId) === grid) grids.delete(layerId);
+  };
+}
+
+export function getVectorGrid(layerId: string): L.VectorGrid | undefined {
+  return grids.get(layerId);
+}
+
+// The map a layer's grid is on, for code outside the map (panels) that needs
+// its tiles or view
+export function getVectorGridMap(layerId: string): L.Map | undefined {
+  return (grids.get(layerId) as InspectableVectorGrid | undefined)?._map;
+}
+
+function featureKind(feature: RenderedFeature['feature']): FeatureKind {
+  if (feature._point) return 'point';
+  return feature instanceof L.Polygon ? 'polygon' : 'line';
+}
+
+// Sutherland–Hodgman clipping of a ring to the tile square. Tiles carry a
+// buffer of geometry beyond their edges, which would otherwise overlap the
+// neighbouring tile's piece.
+function clipRing(ring: L.Point[], size: L.Point): L.Point[] {
+  const edges: [(point: L.Point) => boolean, (a: L.Point, b: L.Point) => L.Point][] = [
+    [(p) => p.x >= 0, (a, b) => L.point(0, a.y + ((b.y - a.y) * (0 - a.x)) / (b.x - a.x))],
+    [(p) => p.x <= size.x, (a, b) => L.point(size.x, a.y + ((b.y - a.y) * (size.x - a.x)) / (b.x - a.x))],
+    [(p) => p.y >= 0, (a, b) => L.point(a.x + ((b.x - a.x) * (0 - a.y)) / (b.y - a.y), 0)],
+    [(p) => p.y <= size.y, (a, b) => L.point(a.x + ((b.x - a.x) * (size.y - a.y)) / (b.y - a.y), size.y)],
+  ];
+  let output = ring;
+  for (const [inside, intersect] of edges) {
+    const input = output;
+    output = [];
+    input.forEach((current, index) => {
+      const previous = input[(index + input.length - 1) % input.length];
+      if (inside(current)) {
+        if (!inside(previous)) output.push(intersect(previous, current));
+        output.push(current);
+      } else if (inside(previous)) {
+        output.push(intersect(previous, current));
+      }
+    });
+  }
+  return output;
+}
+
+// A polygon's piece from one tile, in pixel coordinates of the whole map at
+// the tile's zoom
+interface TilePiece {
+  rings: L.Point[][];
+  tile: L.Bounds;
+}
+
+// A run of a ring's own edges between two of the clipped edges along the
+// tile's border, with the way back along the border to the ring's next run
+interface RingRun {
+  points: L.Point[];
+  border: L.Point[];
+  next: number;
+}
+
+// How far apart, in pixels, the two tiles may put the same crossing of an
+// edge: each clips the edge at its own buffer, on its own grid
+const SEAM_TOLERANCE = 0.5;
+
+function ringArea2(ring: L.Point[]) {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += ring[j].x * ring[i].y - ring[i].x * ring[j].y;
+  }
+  return sum;
+}
+
+function ringContains(ring: L.Point[], point: L.Point) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [a, b] = [ring[i], ring[j]];
+    const crosses = a.y > point.y !== b.y > point.y;
+    if (crosses && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+// Whether an edge runs along one side of the tile, as clipping leaves them
+function onBorder(a: L.Point, b: L.Point, { min, max }: L.Bounds) {
+  return (
+    (a.x === b.x && (a.x === min!.x || a.x === max!.x)) ||
+    (a.y === b.y && (a.y === min!.y || a.y === max!.y))
+  );
+}
+
+// Split a clipped ring into its runs; null for a ring clear of the border,
+// and no runs for one that is all border (a tile the polygon covers)
+function ringRuns(ring: L.Point[], tile: L.Bounds, offset: number): RingRun[] | null {
+  const count = ring.length;
+  const border = ring.map((point, i) => onBorder(point, ring[(i + 1) % count], tile));
+  const first = border.indexOf(true);
+  if (first === -1) return null;
+  const runs: RingRun[] = [];
+  // Border points met before the first run close the last one's path
+  const leading: L.Point[] = [];
+  let open = false;
+  for (let k = 1; k <= count; k++) {
+    const i = (first + k) % count;
+    const end = ring[(i + 1) % count];
+    if (!border[i]) {
+      if (!open) runs.push({ points: [ring[i]], border: [], next: 0 });
+      runs[runs.length - 1].points.push(end);
+      open = true;
+      continue;
+    }
+    open = false;
+    // Points between two border edges lie along the path to the next run
+    if (border[(i + 1) % count]) (runs.length ? runs[runs.length - 1].border : leading).push(end);
+  }
+  if (runs.length) runs[runs.length - 1].border.push(...leading);
+  return runs.map((run, index) => ({ ...run, next: offset + ((index + 1) % runs.length) }));
+}
+
+// Join a polygon's pieces from neighbouring tiles into whole rings: the edges
+// that clipping leaves along each tile's border are dropped, and a ring leaving
+// one tile goes on with the run of the next tile starting where it left. Where
+// that tile is not loaded, the ring follows its own tile's border. Rings come
+// out as exteriors each followed by its holes, or null when the pieces do not
+// fit together.
+function joinTilePieces(pieces: TilePiece[]): L.Point[][] | null {
+  const rings: L.Point[][] = [];
+  const runs: RingRun[] = [];
+  const pieceOf: number[] = [];
+  let covered = false;
+  pieces.forEach(({ rings: pieceRings, tile }, piece) => {
+    for (const ring of pieceRings) {
+      const split = ringRuns(ring, tile, runs.length);
+      if (split?.length === 0) covered = true;
+      if (!split) {
+        rings.push(ring);
+        continue;
+      }
+      runs.push(...split);
+      pieceOf.push(...split.map(() => piece));
+    }
+  });
+  // Whole tiles inside the polygon leave no runs to join across them
+  if (covered) return null;
+
+  // Each run's end to the closest start of a run from another tile
+  const links = new Map<number, number>();
+  const taken = new Set<number>();
+  runs.forEach((run, index) => {
+    const end = run.points[run.points.length - 1];
+    let best = -1;
+    let bestDistance = SEAM_TOLERANCE;
+    runs.forEach((candidate, other) => {
+      if (pieceOf[other] === pieceOf[index] || taken.has(other)) return;
+      const distance = end.distanceTo(candidate.points[0]);
+      if (distance <= bestDistance) {
+        best = other;
+        bestDistance = distance;
+      }
+    });
+    if (best === -1) return;
+    links.set(index, best);
+    taken.add(best);
+  });
+
+  const visited = new Set<number>();
+  for (let start = 0; start < runs.length; start++) {
+    if (visited.has(start)) continue;
+    const ring: L.Point[] = [];
+    let current = start;
+    do {
+      if (visited.has(current)) return null;
+      visited.add(current);
+      const run = runs[current];
+      const linked = links.get(current);
+      for (const point of linked === undefined ? [...run.points, ...run.border] : run.points) {
+        if (!ring.length || !ring[ring.length - 1].equals(point)) ring.push(point);
+      }
+      current = linked ?? run.next;
+    } while (current !== start);
+    if (ring.length > 1 && ring[0].equals(ring[ring.length - 1])) ring.pop();
+    if (ring.length >= 3) rings.push(ring);
+  }
+
+  // The largest ring is an exterior, and gives the winding of all of them
+  const areas = rings.map(ringArea2);
+  const largest = areas.reduce(
+    (max, area, i) => (Math.abs(area) > Math.abs(areas[max]) ? i : max),
+    0
+  );
+  const exteriorSign = Math.sign(areas[largest]);
+  const exteriors = rings.filter((_, i) => Math.sign(areas[i]) === exteriorSign);
+  const holes = rings.filter((_, i) => Math.sign(areas[i]) !== exteriorSign);
+  return exteriors.flatMap((exterior) => [
+    exterior,
+    ...holes.filter((hole) => ringContains(exterior, hole[0])),
+  ]);
+}
+
+// A feature from one tile, with its pixel coordinates kept for joining
+type TileFeature = LoadedFeature & { z: number; pieces: TilePiece[] };
+
+function toLoadedFeature(
+  map: L.Map,
+  tile: FeatureTile,
+  id: string,
+  rendered: RenderedFeature
+): TileFeature | undefined {
+  const coord = tile.getCoord() as L.Point & { z: number };
+  const origin = coord.scaleBy(tile._size);
+  const kind = featureKind(rendered.feature);
+  const parts =
+    kind === 'point'
+      ? [[rendered.feature._point as L.Point]]
+      : kind === 'polygon'
+        ? rendered.feature._parts
+            .map((ring) => clipRing(ring, tile._size))
+            .filter((ring) => ring.length >= 3)
+        : rendered.feature._parts;
+  // A polygon that only reaches into the tile's buffer belongs to its neighbour
+  if (parts.length === 0) return undefined;
+  const points = parts.map((part) => part.map((point) => origin.add(point)));
+  const latLngs = points.map((part) => part.map((point) => map.unproject(point, coord.z)));
+
+  return {
+    id,
+    sourceLayer: rendered.layerName,
+    properties: rendered.feature.properties,
+    kind,
+    latLngs,
+    bounds: L.latLngBounds(latLngs.flat()),
+    z: coord.z,
+    pieces:
+      kind === 'polygon'
+        ? [{ rings: points, tile: L.bounds(origin, origin.add(tile._size)) }]
+        : [],
+  };
+}
+
+// Features sharing an id across tiles are merged: bounds are combined, and the
+// parts of the most detailed zoom level are joined (each tile holds the piece
+// of the feature clipped to that tile).
+export function getLoadedFeatures(
+  map: L.Map,
+  layerId: string,
+  onlyId?: string
+): LoadedFeature[] {
+  const grid = grids.get(layerId) as InspectableVectorGrid | undefined;
+  if (!grid?._vectorTiles) return [];
+
+  const found = new Map<string, TileFeature>();
+  for (const tile of Object.values(grid._vectorTiles)) {
+    const features = tile._features ?? {};
+    const entries =
+      onlyId === undefined
+        ? Object.entries(features)
+        : features[onlyId]
+          ? [[onlyId, features[onlyId]] as const]
+          : [];
+    for (const [id, rendered] of entries) {
+      const feature = toLoadedFeature(map, tile, id, rendered);
+      if (!feature) continue;
+      const existing = found.get(id);
+      if (!existing) {
+        found.set(id, feature);
+        continue;
+      }
+      const bounds = L.latLngBounds([]).extend(existing.bounds).extend(feature.bounds);
+      if (feature.z > existing.z) {
+        found.set(id, { ...feature, bounds });
+      } else if (feature.z === existing.z) {
+        found.set(id, {
+          ...existing,
+          latLngs: [...existing.latLngs, ...feature.latLngs],
+          bounds,
+          pieces: [...existing.pieces, ...feature.pieces],
+        });
+      } else {
+        found.set(id, { ...existing, bounds });
+      }
+    }
+  }
+  return [...found.values()].map(({ z, pieces, ...feature }) => {
+    const rings = pieces.length > 1 ? joinTilePieces(pieces) : null;
+    if (!rings) return feature;
+    const latLngs = rings.map((ring) => ring.map((point) => map.unproject(point, z)));
+    return { ...feature, latLngs };
+  });
+}
+
+// Attributes of every feature in the loaded tiles, once each, e.g. to
+// classify them for a thematic style
+export function getLoadedProperties(layerId: string): FeatureProperties[] {
+  const grid = grids.get(layerId) as InspectableVectorGrid | undefined;
+  const found = new Map<string, FeatureProperties>();
+  for (const tile of Object.values(grid?._vectorTiles ?? {})) {
+    for (const [id, rendered] of Object.entries(tile._features ?? {})) {
+      if (!found.has(id)) found.set(id, rendered.feature.properties);
+    }
+  }
+  return [...found.values()];
+}
+
+// Run the grid's style functions again over the features already drawn, so a
+// style change shows without fetching the tiles again. Features with a style
+// of their own (hover, selection) keep it. Visibility cannot change this way:
+// the grid skips empty style lists here, and features left out when their
+// tile was drawn do not exist to be restyled.
+export function restyleVectorGrid(grid: L.VectorGrid) {
+  const inspectable = grid as InspectableVectorGrid;
+  const styles = (inspectable.options.vectorTileLayerStyles ?? {}) as Record<
+    string,
+    SourceLayerStyle
+  >;
+  for (const tile of Object.values(inspectable._vectorTiles ?? {})) {
+    for (const [id, rendered] of Object.entries(tile._features ?? {})) {
+      if (inspectable._overriddenStyles?.[id]) continue;
+      inspectable._updateStyles(
+        rendered.feature,
+        tile,
+        styles[rendered.layerName] ?? L.Path.prototype.options
+      );
+    }
+  }
+}
+
+export function findLoadedFeature(
+  map: L.Map,
+  layerId: string,
+  id: string
+): LoadedFeature | undefined {
+  return getLoadedFeatures(map, layerId, id)[0];
+}
+
+// Attributes of a feature in the tiles already loaded, for code outside the
+// map; undefined while its layer is off the map or its tiles are loading
+export function findLoadedProperties(layerId: string, id: string): FeatureProperties | undefined {
+  const map = getVectorGridMap(layerId);
+  return map && findLoadedFeature(map, layerId, id)?.properties;
+}
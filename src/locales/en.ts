@@ -0,0 +1,281 @@
+import type { Messages } from '@/lib/i18n';
+
+const en: Messages = {
+  'app.title': 'Goiânia Tile Viewer',
+  'app.subtitle': 'Interactive viewer for Goiânia map tiles',
+  'app.dataBy': 'Map data provided by',
+  'app.layers': 'Layers',
+  'language.label': 'Language',
+
+  'notFound.message': 'Oops! Page not found',
+  'notFound.home': 'Return to Home',
+
+  'map.zoom': 'Zoom',
+  'map.navigate': 'Navigate',
+  'map.reset': 'Reset',
+  'map.scale': 'Scale',
+  'map.zoomIn': 'Zoom In',
+  'map.zoomOut': 'Zoom Out',
+  'map.previousView': 'Previous view ([ or Alt+←)',
+  'map.nextView': 'Next view (] or Alt+→)',
+  'map.invalidCoordinates': 'Invalid coordinates',
+  'map.invalidZoom': 'Please enter a numeric zoom level',
+  'map.updated': 'Map updated',
+  'map.updatedDescription': 'Navigated to {latitude}, {longitude} at zoom {zoom}',
+  'map.resetDone': 'Map reset',
+  'map.resetDoneDescription': 'Returned to default view',
+  'map.resetDoneHome': 'Returned to “{name}”',
+  'map.currentView': 'Current View',
+  'map.currentViewSummary': 'Lat: {latitude}, Lng: {longitude}, Zoom: {zoom}',
+  'map.activeLayers': 'Map Layers',
+  'map.registryError': 'Could not load the layers: {message}',
+
+  'coordinates.label': 'Coordinates',
+  'coordinates.placeholder': '-16.6673, -49.3273 · 16°40′02″S 49°19′38″W · UTM 22S · Plus Code',
+  'coordinates.understood': '{source} → {coordinates}',
+  'coordinates.format.decimal': 'Decimal degrees',
+  'coordinates.format.dms': 'Degrees, minutes and seconds',
+  'coordinates.format.utm': 'UTM {zone}{hemisphere} SIRGAS 2000, E {easting} N {northing}',
+  'coordinates.format.plus-code': 'Plus Code',
+  'coordinates.error.empty': 'Enter coordinates',
+  'coordinates.error.unrecognized':
+    'Format not recognized. Use decimal degrees, degrees/minutes/seconds, UTM or a Plus Code',
+  'coordinates.error.latitude-range': 'Latitude must be between -90 and 90',
+  'coordinates.error.longitude-range': 'Longitude must be between -180 and 180',
+  'coordinates.error.utm-range': 'UTM coordinates out of range',
+  'coordinates.error.plus-code': 'Invalid Plus Code',
+
+  'cursor.format': 'Cursor coordinate format',
+  'cursor.format.dd': 'Decimal degrees (WGS84)',
+  'cursor.format.dms': 'Degrees, minutes and seconds (WGS84)',
+  'cursor.format.utm': 'UTM 22S SIRGAS 2000 (EPSG:31982)',
+  'cursor.position': 'Cursor position',
+  'cursor.copy':
+    'Right-click the map to copy the point under the cursor, or click here to copy the last one',
+  'cursor.empty': 'Move the cursor over the map',
+
+  'lot.searching': 'Looking up lot {id}…',
+  'lot.notFound': 'Lot {id} was not found',
+  'lot.notFoundHint': 'Check the lot number.',
+  'lot.notLoaded': 'Lot {id} is not in the loaded area',
+  'lot.notLoadedHint':
+    'Lots are looked up in the map around the current view. Check the lot number, or move the map to where the lot lies and try again.',
+  'lot.error': 'Could not look up lot {id}',
+  'lot.errorHint': 'The lookup service did not answer. Please try again later.',
+  'lot.back': 'Back to map',
+
+  'selection.count_one': '{count} feature selected',
+  'selection.count_other': '{count} features selected',
+  'selection.clear': 'Clear selection',
+
+  'measure.distance': 'Measure distance',
+  'measure.area': 'Measure area and perimeter',
+  'measure.clear': 'Clear measurements',
+  'measure.remove': 'Remove measurement',
+  'measure.perimeter': 'Perimeter {value}',
+  'measure.hint':
+    'Click to add vertices; double-click or Enter finishes, Esc cancels, Backspace undoes the last one. Drag vertices to adjust.',
+
+  'sketch.title': 'Annotations',
+  'sketch.draw.point': 'Mark a point',
+  'sketch.draw.line': 'Draw a line',
+  'sketch.draw.polygon': 'Draw a polygon',
+  'sketch.undo': 'Undo (Ctrl+Z)',
+  'sketch.redo': 'Redo (Ctrl+Shift+Z)',
+  'sketch.color': 'Color',
+  'sketch.empty': 'No annotations yet.',
+  'sketch.untitled.point': 'Point {number}',
+  'sketch.untitled.line': 'Line {number}',
+  'sketch.untitled.polygon': 'Polygon {number}',
+  'sketch.label': 'Label',
+  'sketch.note': 'Notes',
+  'sketch.delete': 'Delete annotation',
+  'sketch.export': 'Export',
+  'sketch.import': 'Import',
+  'sketch.clear': 'Clear',
+  'sketch.imported': 'Annotations imported',
+  'sketch.importedDescription_one': '{count} annotation imported',
+  'sketch.importedDescription_other': '{count} annotations imported',
+  'sketch.importFailed': 'Import failed',
+  'sketch.error.json': 'The file is not valid JSON.',
+  'sketch.error.notGeoJson': 'The file is not GeoJSON.',
+  'sketch.error.invalid': 'Feature {number} is not a valid point, line or polygon.',
+  'sketch.error.empty': 'The file has no features.',
+  'sketch.hint.point': 'Click the map to mark a point. Esc stops.',
+  'sketch.hint.shape':
+    'Click to add vertices; double-click or Enter finishes, Esc cancels, Backspace undoes the last one.',
+
+  'layers.overlays': 'Overlays',
+  'layers.basemap': 'Basemap',
+  'layers.opacity': '{name} opacity',
+  'layers.import': 'Import file (GeoJSON, KML, GPX, zipped Shapefile)',
+  'layers.zoomTo': 'Zoom to layer',
+  'layers.style': 'Style',
+  'layers.remove': 'Remove layer',
+  'layers.color': 'Color',
+  'layers.weight': 'Line width',
+  'layers.fillOpacity': 'Fill opacity',
+
+  'import.drop': 'Drop files to import them as layers',
+  'import.done': '{name} imported',
+  'import.doneDescription_one': '{count} feature added to the map',
+  'import.doneDescription_other': '{count} features added to the map',
+  'import.failed': 'Could not import {name}',
+  'import.error.unsupported': 'Unsupported format. Use GeoJSON, KML, GPX or a zipped Shapefile (.zip).',
+  'import.error.invalid': 'The file is damaged or not in the format its extension says.',
+  'import.error.empty': 'The file has no features.',
+  'import.error.unexpected': 'The file could not be read: {message}',
+  'import.error.projection':
+    'Unsupported coordinate system. Use WGS84, SIRGAS 2000 or SIRGAS 2000 / UTM.',
+
+  'export.title': 'Export',
+  'export.scope': 'Features',
+  'export.scope.selection_one': 'Selection ({count} feature)',
+  'export.scope.selection_other': 'Selection ({count} features)',
+  'export.scope.viewport': 'Lots in view',
+  'export.format': 'Format',
+  'export.format.geojson': 'GeoJSON',
+  'export.format.csv': 'CSV (attributes + centroid)',
+  'export.format.kml': 'KML',
+  'export.format.wkt': 'WKT',
+  'export.crs': 'Coordinates',
+  'export.crs.wgs84': 'WGS84 (lon/lat)',
+  'export.crs.utm22s': 'SIRGAS 2000 / UTM 22S',
+  'export.download': 'Download',
+  'export.done_one': '{count} feature exported',
+  'export.done_other': '{count} features exported',
+  'export.missing_one':
+    '{count} selected feature was left out because its tiles are not loaded. Pan to it and export again.',
+  'export.missing_other':
+    '{count} selected features were left out because their tiles are not loaded. Pan to them and export again.',
+  'export.failed': 'Nothing to export',
+  'export.empty.selection': 'None of the selected features is loaded. Pan to them and try again.',
+  'export.empty.viewport': 'No lots are loaded in view. Turn on the lots layer or zoom in.',
+
+  'print.open': 'Print or export map',
+  'print.title': 'Print map',
+  'print.description':
+    'The current view is laid out on the page at the chosen scale, or the one it has on screen, with title, scale bar, north arrow, legend and attribution.',
+  'print.mapTitle': 'Title',
+  'print.paper': 'Paper',
+  'print.paper.a4': 'A4',
+  'print.paper.a3': 'A3',
+  'print.paper.letter': 'Letter',
+  'print.paper.legal': 'Legal',
+  'print.orientation': 'Orientation',
+  'print.orientation.portrait': 'Portrait',
+  'print.orientation.landscape': 'Landscape',
+  'print.dpi': 'Resolution',
+  'print.dpiValue': '{dpi} dpi',
+  'print.mapScale': 'Scale',
+  'print.scaleScreen': 'As on screen ({scale})',
+  'print.format': 'Format',
+  'print.size': 'Page of {width} × {height} pixels',
+  'print.submit': 'Print',
+  'print.busy': 'Preparing the print…',
+  'print.scale': 'Scale 1:{scale}',
+  'print.failed': 'Print failed',
+  'print.basemapSkipped': 'Printed without the basemap',
+  'print.basemapSkippedDescription':
+    'Its server does not allow its tiles to be exported. Add it with CORS enabled, if the server supports it, or pick another basemap.',
+
+  'scale.title': 'Scale at the center of the map',
+  'scale.presets': 'Common scales',
+
+  'style.open': 'Thematic style',
+  'style.title': 'Style of {name}',
+  'style.description': 'Color the features by one of their attributes. Categories and classes are computed from the features loaded in the current view.',
+  'style.mode': 'Style',
+  'style.mode.simple': 'Single color',
+  'style.mode.categorical': 'Categories',
+  'style.mode.graduated': 'Graduated classes',
+  'style.field': 'Attribute',
+  'style.palette': 'Palette',
+  'style.method': 'Classification',
+  'style.method.equal': 'Equal interval',
+  'style.method.quantile': 'Quantile',
+  'style.method.manual': 'Manual breaks',
+  'style.classes': 'Classes',
+  'style.breaks': 'Breaks',
+  'style.classColor': 'Color of {label}',
+  'style.other': 'Other values',
+  'style.noData': 'No value',
+  'style.noFeatures': 'No features of this layer are loaded. Pan or zoom to where it has features and open the style again.',
+  'style.loaded_one': '{count} feature loaded',
+  'style.loaded_other': '{count} features loaded',
+  'style.recompute': 'Recompute from view',
+  'legend.title': 'Legend',
+  'legend.other': 'Other values',
+  'legend.collapse': 'Hide legend',
+  'legend.expand': 'Show legend',
+  'bookmarks.title': 'Saved views',
+  'bookmarks.namePlaceholder': 'Save current view as…',
+  'bookmarks.empty': 'No saved views yet.',
+  'bookmarks.go': 'Go to this view',
+  'bookmarks.home': 'Home',
+  'bookmarks.actions': 'More actions',
+  'bookmarks.rename': 'Rename',
+  'bookmarks.setHome': 'Use as home',
+  'bookmarks.unsetHome': 'Stop using as home',
+  'bookmarks.delete': 'Delete',
+  'bookmarks.export': 'Export',
+  'bookmarks.import': 'Import',
+  'bookmarks.imported': 'Views imported',
+  'bookmarks.importedDescription_one': '{count} view imported',
+  'bookmarks.importedDescription_other': '{count} views imported',
+  'bookmarks.importFailed': 'Import failed',
+  'bookmarks.error.json': 'The file is not valid JSON.',
+  'bookmarks.error.invalid': 'The file is not a saved views file.',
+
+  'basemap.remove': 'Remove basemap',
+  'basemap.add': 'Add XYZ basemap',
+  'basemap.name': 'Name',
+  'basemap.template': 'XYZ template',
+  'basemap.attribution': 'Attribution',
+  'basemap.subdomains': 'Subdomains',
+  'basemap.maxZoom': 'Max zoom',
+  'basemap.cors': 'Server allows CORS (needed to print the basemap)',
+  'basemap.invalidUrl': 'Invalid tile URL',
+  'basemap.invalidUrlDescription': 'Use an http(s) template containing {z}, {x} and {y}',
+  'basemaps.osm': 'OpenStreetMap',
+  'basemaps.osm-grayscale': 'OpenStreetMap (grayscale)',
+  'basemaps.carto-light': 'CARTO Light',
+  'basemaps.none': 'None',
+
+  'inspector.id': 'ID: {id}',
+  'inspector.copyId': 'Copy ID',
+  'inspector.featureId': 'Feature ID',
+  'inspector.previous': 'Previous selected feature',
+  'inspector.next': 'Next selected feature',
+  'inspector.search': 'Search attributes',
+  'inspector.pending': "Attributes appear once the feature's tiles have loaded.",
+  'inspector.attribute': 'Attribute',
+  'inspector.value': 'Value',
+  'inspector.pin': 'Pin to top',
+  'inspector.unpin': 'Unpin',
+  'inspector.copyValue': 'Copy value',
+  'inspector.copyJson': 'Copy JSON',
+  'inspector.copyCsv': 'Copy CSV',
+  'inspector.attributesJson': 'Attributes (JSON)',
+  'inspector.attributesCsv': 'Attributes (CSV)',
+
+  'popup.more_one': '{count} more in the attribute inspector',
+  'popup.more_other': '{count} more in the attribute inspector',
+
+  'value.null': 'null',
+  'value.true': 'Yes',
+  'value.false': 'No',
+  'value.more': 'more',
+  'value.less': 'less',
+
+  'clipboard.copied': 'Copied',
+  'clipboard.copiedDescription': '{what} copied to the clipboard',
+  'clipboard.failed': 'Copy failed',
+  'clipboard.failedDescription': 'The browser did not allow access to the clipboard',
+
+  'common.cancel': 'Cancel',
+  'common.add': 'Add',
+  'common.close': 'Close',
+};
+
+export default en;
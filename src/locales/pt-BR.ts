@@ -0,0 +1,281 @@
+// Default catalog: every key used by the UI must exist here. Plural forms use
+// the `_one` / `_other` suffixes (see `translate` in lib/i18n).
+const ptBR = {
+  'app.title': 'Visualizador de Tiles de Goiânia',
+  'app.subtitle': 'Visualizador interativo dos tiles do mapa de Goiânia',
+  'app.dataBy': 'Dados do mapa fornecidos por',
+  'app.layers': 'Camadas',
+  'language.label': 'Idioma',
+
+  'notFound.message': 'Ops! Página não encontrada',
+  'notFound.home': 'Voltar ao início',
+
+  'map.zoom': 'Zoom',
+  'map.navigate': 'Navegar',
+  'map.reset': 'Redefinir',
+  'map.scale': 'Escala',
+  'map.zoomIn': 'Aproximar',
+  'map.zoomOut': 'Afastar',
+  'map.previousView': 'Visualização anterior ([ ou Alt+←)',
+  'map.nextView': 'Próxima visualização (] ou Alt+→)',
+  'map.invalidCoordinates': 'Coordenadas inválidas',
+  'map.invalidZoom': 'Informe um nível de zoom numérico',
+  'map.updated': 'Mapa atualizado',
+  'map.updatedDescription': 'Centralizado em {latitude}, {longitude} no zoom {zoom}',
+  'map.resetDone': 'Mapa redefinido',
+  'map.resetDoneDescription': 'De volta à visualização padrão',
+  'map.resetDoneHome': 'De volta a “{name}”',
+  'map.currentView': 'Visualização atual',
+  'map.currentViewSummary': 'Lat: {latitude}, Lng: {longitude}, Zoom: {zoom}',
+  'map.activeLayers': 'Camadas do mapa',
+  'map.registryError': 'Não foi possível carregar as camadas: {message}',
+
+  'coordinates.label': 'Coordenadas',
+  'coordinates.placeholder': '-16,6673; -49,3273 · 16°40′02″S 49°19′38″O · UTM 22S · Plus Code',
+  'coordinates.understood': '{source} → {coordinates}',
+  'coordinates.format.decimal': 'Graus decimais',
+  'coordinates.format.dms': 'Graus, minutos e segundos',
+  'coordinates.format.utm': 'UTM {zone}{hemisphere} SIRGAS 2000, E {easting} N {northing}',
+  'coordinates.format.plus-code': 'Plus Code',
+  'coordinates.error.empty': 'Informe as coordenadas',
+  'coordinates.error.unrecognized':
+    'Formato não reconhecido. Use graus decimais, graus/minutos/segundos, UTM ou Plus Code',
+  'coordinates.error.latitude-range': 'A latitude deve estar entre -90 e 90',
+  'coordinates.error.longitude-range': 'A longitude deve estar entre -180 e 180',
+  'coordinates.error.utm-range': 'Coordenadas UTM fora do intervalo válido',
+  'coordinates.error.plus-code': 'Plus Code inválido',
+
+  'cursor.format': 'Formato das coordenadas do cursor',
+  'cursor.format.dd': 'Graus decimais (WGS84)',
+  'cursor.format.dms': 'Graus, minutos e segundos (WGS84)',
+  'cursor.format.utm': 'UTM 22S SIRGAS 2000 (EPSG:31982)',
+  'cursor.position': 'Posição do cursor',
+  'cursor.copy':
+    'Clique com o botão direito no mapa para copiar o ponto sob o cursor, ou clique aqui para copiar o último',
+  'cursor.empty': 'Passe o cursor sobre o mapa',
+
+  'lot.searching': 'Procurando o lote {id}…',
+  'lot.notFound': 'Lote {id} não encontrado',
+  'lot.notFoundHint': 'Confira o número do lote.',
+  'lot.notLoaded': 'O lote {id} não está na área carregada',
+  'lot.notLoadedHint':
+    'Os lotes são procurados no mapa em torno da vista atual. Confira o número do lote ou leve o mapa até onde ele fica e tente de novo.',
+  'lot.error': 'Não foi possível consultar o lote {id}',
+  'lot.errorHint': 'O serviço de consulta não respondeu. Tente novamente mais tarde.',
+  'lot.back': 'Voltar ao mapa',
+
+  'selection.count_one': '{count} feição selecionada',
+  'selection.count_other': '{count} feições selecionadas',
+  'selection.clear': 'Limpar seleção',
+
+  'measure.distance': 'Medir distância',
+  'measure.area': 'Medir área e perímetro',
+  'measure.clear': 'Limpar medições',
+  'measure.remove': 'Remover medição',
+  'measure.perimeter': 'Perímetro {value}',
+  'measure.hint':
+    'Clique para adicionar vértices; clique duplo ou Enter conclui, Esc cancela, Backspace desfaz o último. Arraste os vértices para ajustar.',
+
+  'sketch.title': 'Anotações',
+  'sketch.draw.point': 'Marcar ponto',
+  'sketch.draw.line': 'Desenhar linha',
+  'sketch.draw.polygon': 'Desenhar polígono',
+  'sketch.undo': 'Desfazer (Ctrl+Z)',
+  'sketch.redo': 'Refazer (Ctrl+Shift+Z)',
+  'sketch.color': 'Cor',
+  'sketch.empty': 'Nenhuma anotação ainda.',
+  'sketch.untitled.point': 'Ponto {number}',
+  'sketch.untitled.line': 'Linha {number}',
+  'sketch.untitled.polygon': 'Polígono {number}',
+  'sketch.label': 'Rótulo',
+  'sketch.note': 'Observações',
+  'sketch.delete': 'Excluir anotação',
+  'sketch.export': 'Exportar',
+  'sketch.import': 'Importar',
+  'sketch.clear': 'Limpar',
+  'sketch.imported': 'Anotações importadas',
+  'sketch.importedDescription_one': '{count} anotação importada',
+  'sketch.importedDescription_other': '{count} anotações importadas',
+  'sketch.importFailed': 'Falha na importação',
+  'sketch.error.json': 'O arquivo não é um JSON válido.',
+  'sketch.error.notGeoJson': 'O arquivo não é GeoJSON.',
+  'sketch.error.invalid': 'A feição {number} não é um ponto, linha ou polígono válido.',
+  'sketch.error.empty': 'O arquivo não tem feições.',
+  'sketch.hint.point': 'Clique no mapa para marcar um ponto. Esc encerra.',
+  'sketch.hint.shape':
+    'Clique para adicionar vértices; clique duplo ou Enter conclui, Esc cancela, Backspace desfaz o último.',
+
+  'layers.overlays': 'Camadas temáticas',
+  'layers.basemap': 'Mapa base',
+  'layers.opacity': 'Opacidade de {name}',
+  'layers.import': 'Importar arquivo (GeoJSON, KML, GPX, Shapefile .zip)',
+  'layers.zoomTo': 'Aproximar para a camada',
+  'layers.style': 'Estilo',
+  'layers.remove': 'Remover camada',
+  'layers.color': 'Cor',
+  'layers.weight': 'Espessura da linha',
+  'layers.fillOpacity': 'Opacidade do preenchimento',
+
+  'import.drop': 'Solte os arquivos para importá-los como camadas',
+  'import.done': '{name} importado',
+  'import.doneDescription_one': '{count} feição adicionada ao mapa',
+  'import.doneDescription_other': '{count} feições adicionadas ao mapa',
+  'import.failed': 'Não foi possível importar {name}',
+  'import.error.unsupported': 'Formato não suportado. Use GeoJSON, KML, GPX ou Shapefile compactado (.zip).',
+  'import.error.invalid': 'O arquivo está corrompido ou não está no formato indicado pela extensão.',
+  'import.error.empty': 'O arquivo não contém feições.',
+  'import.error.unexpected': 'Não foi possível ler o arquivo: {message}',
+  'import.error.projection':
+    'Sistema de coordenadas não suportado. Use WGS84, SIRGAS 2000 ou SIRGAS 2000 / UTM.',
+
+  'export.title': 'Exportar',
+  'export.scope': 'Feições',
+  'export.scope.selection_one': 'Seleção ({count} feição)',
+  'export.scope.selection_other': 'Seleção ({count} feições)',
+  'export.scope.viewport': 'Lotes na tela',
+  'export.format': 'Formato',
+  'export.format.geojson': 'GeoJSON',
+  'export.format.csv': 'CSV (atributos + centroide)',
+  'export.format.kml': 'KML',
+  'export.format.wkt': 'WKT',
+  'export.crs': 'Coordenadas',
+  'export.crs.wgs84': 'WGS84 (lon/lat)',
+  'export.crs.utm22s': 'SIRGAS 2000 / UTM 22S',
+  'export.download': 'Baixar',
+  'export.done_one': '{count} feição exportada',
+  'export.done_other': '{count} feições exportadas',
+  'export.missing_one':
+    '{count} feição selecionada ficou de fora porque seus tiles não estão carregados. Navegue até ela e exporte de novo.',
+  'export.missing_other':
+    '{count} feições selecionadas ficaram de fora porque seus tiles não estão carregados. Navegue até elas e exporte de novo.',
+  'export.failed': 'Nada para exportar',
+  'export.empty.selection': 'Nenhuma das feições selecionadas está carregada. Navegue até elas e tente de novo.',
+  'export.empty.viewport': 'Não há lotes carregados na tela. Ative a camada de lotes ou aproxime o mapa.',
+
+  'print.open': 'Imprimir ou exportar o mapa',
+  'print.title': 'Imprimir mapa',
+  'print.description':
+    'A vista atual é diagramada na página na escala escolhida, ou na da tela, com título, barra de escala, seta norte, legenda e atribuição.',
+  'print.mapTitle': 'Título',
+  'print.paper': 'Papel',
+  'print.paper.a4': 'A4',
+  'print.paper.a3': 'A3',
+  'print.paper.letter': 'Carta',
+  'print.paper.legal': 'Ofício',
+  'print.orientation': 'Orientação',
+  'print.orientation.portrait': 'Retrato',
+  'print.orientation.landscape': 'Paisagem',
+  'print.dpi': 'Resolução',
+  'print.dpiValue': '{dpi} dpi',
+  'print.mapScale': 'Escala',
+  'print.scaleScreen': 'Como na tela ({scale})',
+  'print.format': 'Formato',
+  'print.size': 'Página de {width} × {height} pixels',
+  'print.submit': 'Imprimir',
+  'print.busy': 'Preparando a impressão…',
+  'print.scale': 'Escala 1:{scale}',
+  'print.failed': 'Falha na impressão',
+  'print.basemapSkipped': 'Impresso sem o mapa base',
+  'print.basemapSkippedDescription':
+    'O servidor dele não permite exportar seus tiles. Adicione-o com CORS ativado, se o servidor suportar, ou escolha outro mapa base.',
+
+  'scale.title': 'Escala no centro do mapa',
+  'scale.presets': 'Escalas usuais',
+
+  'style.open': 'Estilo temático',
+  'style.title': 'Estilo de {name}',
+  'style.description': 'Colora as feições por um de seus atributos. Categorias e classes são calculadas a partir das feições carregadas na visualização atual.',
+  'style.mode': 'Estilo',
+  'style.mode.simple': 'Cor única',
+  'style.mode.categorical': 'Categorias',
+  'style.mode.graduated': 'Classes graduadas',
+  'style.field': 'Atributo',
+  'style.palette': 'Paleta',
+  'style.method': 'Classificação',
+  'style.method.equal': 'Intervalos iguais',
+  'style.method.quantile': 'Quantis',
+  'style.method.manual': 'Quebras manuais',
+  'style.classes': 'Classes',
+  'style.breaks': 'Quebras',
+  'style.classColor': 'Cor de {label}',
+  'style.other': 'Outros valores',
+  'style.noData': 'Sem valor',
+  'style.noFeatures': 'Nenhuma feição desta camada está carregada. Mova ou aproxime o mapa até onde ela tem feições e abra o estilo novamente.',
+  'style.loaded_one': '{count} feição carregada',
+  'style.loaded_other': '{count} feições carregadas',
+  'style.recompute': 'Recalcular pela visualização',
+  'legend.title': 'Legenda',
+  'legend.other': 'Outros valores',
+  'legend.collapse': 'Ocultar legenda',
+  'legend.expand': 'Mostrar legenda',
+  'bookmarks.title': 'Visualizações salvas',
+  'bookmarks.namePlaceholder': 'Salvar visualização atual como…',
+  'bookmarks.empty': 'Nenhuma visualização salva ainda.',
+  'bookmarks.go': 'Ir para esta visualização',
+  'bookmarks.home': 'Início',
+  'bookmarks.actions': 'Mais ações',
+  'bookmarks.rename': 'Renomear',
+  'bookmarks.setHome': 'Usar como início',
+  'bookmarks.unsetHome': 'Deixar de usar como início',
+  'bookmarks.delete': 'Excluir',
+  'bookmarks.export': 'Exportar',
+  'bookmarks.import': 'Importar',
+  'bookmarks.imported': 'Visualizações importadas',
+  'bookmarks.importedDescription_one': '{count} visualização importada',
+  'bookmarks.importedDescription_other': '{count} visualizações importadas',
+  'bookmarks.importFailed': 'Falha na importação',
+  'bookmarks.error.json': 'O arquivo não é um JSON válido.',
+  'bookmarks.error.invalid': 'O arquivo não é um arquivo de visualizações salvas.',
+
+  'basemap.remove': 'Remover mapa base',
+  'basemap.add': 'Adicionar mapa base XYZ',
+  'basemap.name': 'Nome',
+  'basemap.template': 'Modelo XYZ',
+  'basemap.attribution': 'Atribuição',
+  'basemap.subdomains': 'Subdomínios',
+  'basemap.maxZoom': 'Zoom máximo',
+  'basemap.cors': 'Servidor permite CORS (necessário para imprimir o mapa base)',
+  'basemap.invalidUrl': 'URL de tiles inválida',
+  'basemap.invalidUrlDescription': 'Use um modelo http(s) contendo {z}, {x} e {y}',
+  'basemaps.osm': 'OpenStreetMap',
+  'basemaps.osm-grayscale': 'OpenStreetMap (tons de cinza)',
+  'basemaps.carto-light': 'CARTO Claro',
+  'basemaps.none': 'Nenhum',
+
+  'inspector.id': 'ID: {id}',
+  'inspector.copyId': 'Copiar ID',
+  'inspector.featureId': 'ID da feição',
+  'inspector.previous': 'Feição selecionada anterior',
+  'inspector.next': 'Próxima feição selecionada',
+  'inspector.search': 'Buscar atributos',
+  'inspector.pending': 'Os atributos aparecem assim que os tiles da feição forem carregados.',
+  'inspector.attribute': 'Atributo',
+  'inspector.value': 'Valor',
+  'inspector.pin': 'Fixar no topo',
+  'inspector.unpin': 'Desafixar',
+  'inspector.copyValue': 'Copiar valor',
+  'inspector.copyJson': 'Copiar JSON',
+  'inspector.copyCsv': 'Copiar CSV',
+  'inspector.attributesJson': 'Atributos (JSON)',
+  'inspector.attributesCsv': 'Atributos (CSV)',
+
+  'popup.more_one': 'Mais {count} no inspetor de atributos',
+  'popup.more_other': 'Mais {count} no inspetor de atributos',
+
+  'value.null': 'nulo',
+  'value.true': 'Sim',
+  'value.false': 'Não',
+  'value.more': 'mais',
+  'value.less': 'menos',
+
+  'clipboard.copied': 'Copiado',
+  'clipboard.copiedDescription': '{what} copiado para a área de transferência',
+  'clipboard.failed': 'Falha ao copiar',
+  'clipboard.failedDescription': 'O navegador não permitiu acesso à área de transferência',
+
+  'common.cancel': 'Cancelar',
+  'common.add': 'Adicionar',
+  'common.close': 'Fechar',
+};
+
+export default ptBR;
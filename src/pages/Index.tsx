@@ -1,40 +1,74 @@
 
 import MapViewer from "@/components/MapViewer";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import LayerManagerPanel from "@/components/panels/LayerManagerPanel";
+import BookmarksPanel from "@/components/panels/BookmarksPanel";
+import SketchPanel from "@/components/panels/SketchPanel";
+import ExportPanel from "@/components/panels/ExportPanel";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarHeader,
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { useI18n } from "@/hooks/use-i18n";
 
 const Index = () => {
+  const { t } = useI18n();
+
   return (
-    <div className="min-h-screen flex flex-col bg-gray-50">
-      <header className="bg-map-primary text-white py-4 shadow-md">
-        <div className="container mx-auto px-4">
-          <h1 className="text-2xl font-bold">Goiânia Tile Viewer</h1>
-          <p className="text-sm opacity-80">
-            Interactive viewer for Goiânia map tiles
-          </p>
-        </div>
-      </header>
+    <SidebarProvider>
+      <Sidebar>
+        <SidebarHeader>
+          <h2 className="px-2 text-sm font-semibold">{t("app.layers")}</h2>
+        </SidebarHeader>
+        <SidebarContent>
+          <LayerManagerPanel />
+          <BookmarksPanel />
+          <SketchPanel />
+          <ExportPanel />
+        </SidebarContent>
+      </Sidebar>
+
+      <SidebarInset className="min-h-screen flex flex-col bg-gray-50">
+        <header className="bg-map-primary text-white py-4 shadow-md">
+          <div className="container mx-auto px-4 flex items-center gap-3">
+            <SidebarTrigger className="hover:bg-white/20 hover:text-white" />
+            <div className="flex-1">
+              <h1 className="text-2xl font-bold">{t("app.title")}</h1>
+              <p className="text-sm opacity-80">
+                {t("app.subtitle")}
+              </p>
+            </div>
+            <LanguageSwitcher className="h-8 w-auto border-white/30 bg-transparent text-white" />
+          </div>
+        </header>
       
-      <main className="flex-1 container mx-auto px-4 py-6">
-        <div className="h-[calc(100vh-12rem)]">
-          <MapViewer />
+        <div className="flex-1 container mx-auto px-4 py-6">
+          <div className="h-[calc(100vh-12rem)]">
+            <MapViewer />
+          </div>
         </div>
-      </main>
       
-      <footer className="bg-white py-4 border-t border-gray-200">
-        <div className="container mx-auto px-4 text-center text-sm text-gray-500">
-          <p>
-            Map data provided by{" "}
-            <a 
-              href="https://tiles-goiania.geo360.com.br/" 
-              target="_blank" 
-              rel="noopener noreferrer"
-              className="text-map-primary hover:underline"
-            >
-              Geo360 Goiânia
-            </a>
-          </p>
-        </div>
-      </footer>
-    </div>
+        <footer className="bg-white py-4 border-t border-gray-200">
+          <div className="container mx-auto px-4 text-center text-sm text-gray-500">
+            <p>
+              {t("app.dataBy")}{" "}
+              <a 
+                href="https://tiles-goiania.geo360.com.br/" 
+                target="_blank" 
+                rel="noopener noreferrer"
+                className="text-map-primary hover:underline"
+              >
+                Geo360 Goiânia
+              </a>
+            </p>
+          </div>
+        </footer>
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LAYERS_CONFIG_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}